@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "entry_revisions" (
+    "id" TEXT NOT NULL,
+    "revision_number" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "synopsis" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "entry_id" TEXT NOT NULL,
+    "author_id" TEXT,
+
+    CONSTRAINT "entry_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entry_revisions_entry_id_revision_number_key" ON "entry_revisions"("entry_id", "revision_number");
+
+-- AddForeignKey
+ALTER TABLE "entry_revisions" ADD CONSTRAINT "entry_revisions_entry_id_fkey" FOREIGN KEY ("entry_id") REFERENCES "entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entry_revisions" ADD CONSTRAINT "entry_revisions_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("synopsis", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "entries_user_id_is_deleted_idx" ON "entries"("user_id", "is_deleted");
+
+-- CreateIndex
+CREATE INDEX "entries_search_vector_idx" ON "entries" USING GIN ("search_vector");
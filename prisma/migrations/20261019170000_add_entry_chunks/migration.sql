@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "entry_chunks" (
+    "id" TEXT NOT NULL,
+    "chunk_index" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "entry_id" TEXT NOT NULL,
+
+    CONSTRAINT "entry_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "entry_chunks_entry_id_idx" ON "entry_chunks"("entry_id");
+
+-- AddForeignKey
+ALTER TABLE "entry_chunks" ADD CONSTRAINT "entry_chunks_entry_id_fkey" FOREIGN KEY ("entry_id") REFERENCES "entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- pgvector is optional: without it the vector column is skipped and
+-- similarity is computed in the application from "embedding"
+DO $$
+BEGIN
+    CREATE EXTENSION IF NOT EXISTS vector;
+    ALTER TABLE "entry_chunks" ADD COLUMN "vector" vector;
+EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'pgvector is not available, using in-process similarity search';
+END $$;
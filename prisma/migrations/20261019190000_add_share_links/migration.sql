@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "share_links" (
+    "id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "password_hash" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "max_views" INTEGER,
+    "view_count" INTEGER NOT NULL DEFAULT 0,
+    "last_viewed_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "entry_id" TEXT NOT NULL,
+    "created_by_id" TEXT NOT NULL,
+
+    CONSTRAINT "share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "share_links_token_hash_key" ON "share_links"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "share_links_entry_id_idx" ON "share_links"("entry_id");
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_entry_id_fkey" FOREIGN KEY ("entry_id") REFERENCES "entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "share_invitations" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "permission" TEXT NOT NULL DEFAULT 'read',
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "send_count" INTEGER NOT NULL DEFAULT 1,
+    "last_sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "responded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "entry_id" TEXT NOT NULL,
+    "invited_by_id" TEXT NOT NULL,
+    "accepted_by_id" TEXT,
+
+    CONSTRAINT "share_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "share_invitations_token_hash_key" ON "share_invitations"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "share_invitations_email_status_idx" ON "share_invitations"("email", "status");
+
+-- CreateIndex
+CREATE INDEX "share_invitations_entry_id_idx" ON "share_invitations"("entry_id");
+
+-- AddForeignKey
+ALTER TABLE "share_invitations" ADD CONSTRAINT "share_invitations_entry_id_fkey" FOREIGN KEY ("entry_id") REFERENCES "entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_invitations" ADD CONSTRAINT "share_invitations_invited_by_id_fkey" FOREIGN KEY ("invited_by_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_invitations" ADD CONSTRAINT "share_invitations_accepted_by_id_fkey" FOREIGN KEY ("accepted_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
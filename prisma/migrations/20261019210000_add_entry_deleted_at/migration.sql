@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- Entries already in the trash were last updated when they were deleted
+UPDATE "entries" SET "deleted_at" = "last_updated" WHERE "is_deleted" = true;
+
+-- CreateIndex
+CREATE INDEX "entries_is_deleted_deleted_at_idx" ON "entries"("is_deleted", "deleted_at");
@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "entries" ADD COLUMN     "word_count" INTEGER NOT NULL DEFAULT 0;
+
+-- Same counting as countWords in src/utils/entryStats.ts
+UPDATE "entries"
+SET "word_count" = COALESCE(array_length(regexp_split_to_array(btrim("content", E' \t\n\r\f\v'), '[[:space:]]+'), 1), 0)
+WHERE btrim("content", E' \t\n\r\f\v') <> '';
+
+-- DropIndex
+DROP INDEX "entries_user_id_is_deleted_idx";
+
+-- CreateIndex
+CREATE INDEX "entries_user_id_is_deleted_date_created_idx" ON "entries"("user_id", "is_deleted", "date_created");
+
+-- CreateTable
+CREATE TABLE "daily_activity" (
+    "day" DATE NOT NULL,
+    "entry_count" INTEGER NOT NULL DEFAULT 0,
+    "word_count" INTEGER NOT NULL DEFAULT 0,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "daily_activity_pkey" PRIMARY KEY ("user_id","day")
+);
+
+-- CreateTable
+CREATE TABLE "word_counts" (
+    "word" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "word_counts_pkey" PRIMARY KEY ("user_id","word")
+);
+
+-- CreateIndex
+CREATE INDEX "word_counts_user_id_count_idx" ON "word_counts"("user_id", "count");
+
+-- AddForeignKey
+ALTER TABLE "daily_activity" ADD CONSTRAINT "daily_activity_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "word_counts" ADD CONSTRAINT "word_counts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the rollups from existing entries, by creation day in each user's timezone
+INSERT INTO "daily_activity" ("user_id", "day", "entry_count", "word_count")
+SELECT e."user_id", ((e."date_created" AT TIME ZONE 'UTC') AT TIME ZONE u."timezone")::date, COUNT(*), SUM(e."word_count")
+FROM "entries" e
+JOIN "users" u ON u."id" = e."user_id"
+WHERE e."is_deleted" = false
+GROUP BY 1, 2;
+
+-- Same tokenizing as wordFrequencies in src/utils/entryStats.ts
+INSERT INTO "word_counts" ("user_id", "word", "count")
+SELECT e."user_id", w."word", COUNT(*)
+FROM "entries" e,
+  LATERAL regexp_split_to_table(regexp_replace(lower(e."content"), '[^a-z0-9_[:space:]]', '', 'g'), '[[:space:]]+') AS w("word")
+WHERE e."is_deleted" = false
+  AND length(w."word") BETWEEN 4 AND 64
+  AND w."word" NOT IN ('that', 'with', 'were', 'been', 'have', 'does', 'will', 'would', 'could', 'should', 'this', 'these', 'those', 'they')
+GROUP BY 1, 2;
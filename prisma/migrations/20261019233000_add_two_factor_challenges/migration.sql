@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "two_factor_challenge_id" TEXT,
+ADD COLUMN "two_factor_challenge_attempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "hourly_activity" (
+    "hour" INTEGER NOT NULL,
+    "entry_count" INTEGER NOT NULL DEFAULT 0,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "hourly_activity_pkey" PRIMARY KEY ("user_id","hour")
+);
+
+-- CreateTable
+CREATE TABLE "length_buckets" (
+    "bucket" TEXT NOT NULL,
+    "entry_count" INTEGER NOT NULL DEFAULT 0,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "length_buckets_pkey" PRIMARY KEY ("user_id","bucket")
+);
+
+-- AddForeignKey
+ALTER TABLE "hourly_activity" ADD CONSTRAINT "hourly_activity_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "length_buckets" ADD CONSTRAINT "length_buckets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from existing entries, by creation hour in each user's timezone
+INSERT INTO "hourly_activity" ("user_id", "hour", "entry_count")
+SELECT e."user_id", EXTRACT(HOUR FROM (e."date_created" AT TIME ZONE 'UTC') AT TIME ZONE u."timezone")::int, COUNT(*)
+FROM "entries" e
+JOIN "users" u ON u."id" = e."user_id"
+WHERE e."is_deleted" = false
+GROUP BY 1, 2;
+
+-- Same buckets as lengthBucket in src/utils/entryStats.ts
+INSERT INTO "length_buckets" ("user_id", "bucket", "entry_count")
+SELECT "user_id", CASE WHEN "word_count" < 100 THEN 'short' WHEN "word_count" < 500 THEN 'medium' ELSE 'long' END, COUNT(*)
+FROM "entries"
+WHERE "is_deleted" = false
+GROUP BY 1, 2;
@@ -19,12 +19,27 @@ if (!process.env.DATABASE_URL) {
   process.exit(1);
 }
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/twoFactor';
 import userRoutes from './routes/user';
 import entryRoutes from './routes/entries';
 import aiRoutes from './routes/ai';
+import chatRoutes from './routes/chat';
 import analyticsRoutes from './routes/analytics';
 import collaborationRoutes from './routes/collaboration';
+import sharedLinkRoutes from './routes/sharedLinks';
 import captchaRoutes from './routes/captcha';
+import templateRoutes from './routes/templates';
+import revisionRoutes from './routes/revisions';
+import tagRoutes from './routes/tags';
+import notebookRoutes from './routes/notebooks';
+import bulkRoutes from './routes/bulk';
+import searchRoutes from './routes/search';
+import exportRoutes from './routes/export';
+import importRoutes from './routes/import';
+import { attachCollabServer } from './routes/collabSocket';
+import { startTrashPurgeSchedule } from './utils/trash';
+import { startAccountPurgeSchedule } from './utils/accounts';
+import { startStatsReconcileSchedule } from './utils/entryStats';
 
 
 
@@ -60,7 +75,8 @@ app.use(cors({
   
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'If-Match', 'If-None-Match', 'X-Share-Password'],
+  exposedHeaders: ['ETag']
 }));
 
 // Body parsing middleware
@@ -68,13 +84,24 @@ app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Routes
+app.use('/api/auth/2fa', twoFactorRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/user', userRoutes);
 app.use('/api', entryRoutes);
+app.use('/api', revisionRoutes);
+app.use('/api', tagRoutes);
+app.use('/api', notebookRoutes);
+app.use('/api', bulkRoutes);
+app.use('/api/ai/chat', chatRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/export', exportRoutes);
+app.use('/api/import', importRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/collaboration', collaborationRoutes);
+app.use('/api/shared', sharedLinkRoutes);
 app.use('/api/captcha', captchaRoutes);
+app.use('/api/templates', templateRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -95,7 +122,19 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
   });
 });
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-});
\ No newline at end of file
+});
+
+// WebSocket endpoint for real-time collaborative editing
+attachCollabServer(server);
+
+// Removing entries that have been in the trash past the retention period
+startTrashPurgeSchedule();
+
+// Deleting deactivated accounts once their grace period is over
+startAccountPurgeSchedule();
+
+// Rebuilding the analytics rollups from the entries now and then
+startStatsReconcileSchedule();
@@ -0,0 +1,53 @@
+import { Response, NextFunction } from 'express';
+import rateLimit, { AugmentedRequest } from 'express-rate-limit';
+import { findExceededQuota } from '../utils/aiUsage';
+import { AuthenticatedRequest } from '../types';
+
+const AI_RATE_LIMIT_WINDOW_MS = parseInt(process.env.AI_RATE_LIMIT_WINDOW_MS || '60000', 10);
+const AI_RATE_LIMIT_MAX = parseInt(process.env.AI_RATE_LIMIT_MAX || '20', 10);
+
+const retryAfterSeconds = (resetsAt: Date) => Math.max(1, Math.ceil((resetsAt.getTime() - Date.now()) / 1000));
+
+// Short-window burst limit per user; runs after authenticateToken
+export const aiRateLimiter = rateLimit({
+  windowMs: AI_RATE_LIMIT_WINDOW_MS,
+  max: AI_RATE_LIMIT_MAX,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => (req as AuthenticatedRequest).user!.id,
+  handler: (req, res) => {
+    const resetsAt = (req as AugmentedRequest).rateLimit.resetTime ?? new Date(Date.now() + AI_RATE_LIMIT_WINDOW_MS);
+
+    res.setHeader('Retry-After', String(retryAfterSeconds(resetsAt)));
+    res.status(429).json({
+      message: `Too many AI requests. Limit is ${AI_RATE_LIMIT_MAX} per ${Math.round(AI_RATE_LIMIT_WINDOW_MS / 1000)} seconds.`,
+      limit: AI_RATE_LIMIT_MAX,
+      resetsAt
+    });
+  }
+});
+
+// Daily and monthly request/token quotas from the usage log
+export const enforceAIQuota = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const exceeded = await findExceededQuota(req.user!.id);
+
+    if (exceeded) {
+      res.setHeader('Retry-After', String(retryAfterSeconds(exceeded.resetsAt)));
+      res.status(429).json({
+        message: `${exceeded.period === 'day' ? 'Daily' : 'Monthly'} AI ${exceeded.metric === 'requests' ? 'request' : 'token'} quota reached`,
+        quota: exceeded
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('AI quota check error:', error);
+    res.status(500).json({ message: 'Failed to check AI quota' });
+  }
+};
@@ -2,13 +2,51 @@ import jwt from 'jsonwebtoken';
 import { Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest } from '../types';
+import { isSessionActive } from '../utils/sessions';
 
 const prisma = new PrismaClient();
 
 interface JwtPayload {
   userId: string;
+  sessionId?: string;
 }
 
+export type AuthenticatedUser = NonNullable<AuthenticatedRequest['user']>;
+
+// Verifying an access token and loading its user. Shared with the WebSocket
+// server, which can't use the Express middleware. JWT errors are thrown.
+export const verifyAccessToken = async (
+  token: string,
+  jwtSecret: string
+): Promise<{ user: AuthenticatedUser; sessionId: string } | { error: string }> => {
+  const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
+
+  // Tokens must belong to a session that hasn't been revoked (logout,
+  // password change or manual revocation)
+  if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId, decoded.userId))) {
+    return { error: 'Session expired or revoked' };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.userId, isDeleted: false },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      username: true,
+      avatar: true,
+      dateJoined: true
+    }
+  });
+
+  if (!user) {
+    return { error: 'User not found or account deactivated' };
+  }
+
+  return { user, sessionId: decoded.sessionId };
+};
+
 export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -29,26 +67,17 @@ export const authenticateToken = async (
       return;
     }
 
-    const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId, isDeleted: false },
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        email: true,
-        username: true,
-        avatar: true,
-        dateJoined: true
-      }
-    });
+    const result = await verifyAccessToken(token, jwtSecret);
 
-    if (!user) {
-      res.status(401).json({ message: 'User not found or account deactivated' });
+    if ('error' in result) {
+      res.status(401).json({ message: result.error });
       return;
     }
 
+    const { user, sessionId } = result;
+
     req.user = user;
+    req.sessionId = sessionId;
     next();
   } catch (error: any) {
     if (error.name === 'JsonWebTokenError') {
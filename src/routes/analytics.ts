@@ -1,80 +1,63 @@
 import express, { Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken } from '../middleware/auth';
+import { getUserTimeZone, zonedParts, zonedDayKey } from '../utils/timezone';
+import { LENGTH_BUCKETS } from '../utils/entryStats';
 import { AuthenticatedRequest } from '../types';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+// Everything here reads the rollup tables (daily_activity, hourly_activity,
+// length_buckets and word_counts), so the cost doesn't grow with the number
+// of entries
+
 // Get user analytics dashboard
 router.get('/dashboard', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user!.id;
+    // Days, hours and months are counted on the user's own clock
+    const timeZone = await getUserTimeZone(userId);
     const now = new Date();
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
     const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
-    // Total notes
-    const totalNotes = await prisma.entry.count({
-      where: { userId, isDeleted: false }
-    });
-
-    // Notes created in last 30 days
-    const recentNotes = await prisma.entry.count({
-      where: {
-        userId,
-        isDeleted: false,
-        dateCreated: { gte: thirtyDaysAgo }
-      }
-    });
-
-    // Notes created in last 7 days
-    const weeklyNotes = await prisma.entry.count({
-      where: {
-        userId,
-        isDeleted: false,
-        dateCreated: { gte: sevenDaysAgo }
-      }
-    });
-
-    // Average words per note
-    const entries = await prisma.entry.findMany({
-      where: { userId, isDeleted: false },
-      select: { content: true }
-    });
-
-    const totalWords = entries.reduce((sum, entry) => {
-      return sum + entry.content.split(/\s+/).length;
-    }, 0);
-
-    const avgWordsPerNote = entries.length > 0 ? Math.round(totalWords / entries.length) : 0;
+    const [totals, recentNotes, weeklyNotes, recentDays, writingStreak, monthlyActivity] = await Promise.all([
+      prisma.dailyActivity.aggregate({
+        where: { userId },
+        _sum: { entryCount: true, wordCount: true }
+      }),
+      // Notes created in last 30 days
+      prisma.entry.count({
+        where: { userId, isDeleted: false, dateCreated: { gte: thirtyDaysAgo } }
+      }),
+      // Notes created in last 7 days
+      prisma.entry.count({
+        where: { userId, isDeleted: false, dateCreated: { gte: sevenDaysAgo } }
+      }),
+      prisma.dailyActivity.findMany({
+        where: { userId, day: { gte: new Date(zonedDayKey(thirtyDaysAgo, timeZone)) } },
+        select: { day: true, entryCount: true }
+      }),
+      calculateWritingStreak(userId, zonedDayKey(now, timeZone)),
+      getMonthlyActivity(userId, timeZone)
+    ]);
+
+    const totalNotes = totals._sum.entryCount ?? 0;
+    const totalWords = totals._sum.wordCount ?? 0;
+    const avgWordsPerNote = totalNotes > 0 ? Math.round(totalWords / totalNotes) : 0;
 
     // Most productive day of week
-    const entriesByDay = await prisma.entry.findMany({
-      where: {
-        userId,
-        isDeleted: false,
-        dateCreated: { gte: thirtyDaysAgo }
-      },
-      select: { dateCreated: true }
-    });
-
     const dayCount = [0, 0, 0, 0, 0, 0, 0];
-    entriesByDay.forEach(entry => {
-      const day = entry.dateCreated.getDay();
-      dayCount[day]++;
+    recentDays.forEach(({ day, entryCount }) => {
+      dayCount[day.getUTCDay()] += entryCount;
     });
 
     const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
     const mostProductiveDay = dayNames[dayCount.indexOf(Math.max(...dayCount))];
 
-    // Writing streak
-    const writingStreak = await calculateWritingStreak(userId);
-
-    // Monthly activity
-    const monthlyActivity = await getMonthlyActivity(userId);
-
     res.json({
+      timezone: timeZone,
       totalNotes,
       recentNotes,
       weeklyNotes,
@@ -98,29 +81,22 @@ router.get('/dashboard', authenticateToken, async (req: AuthenticatedRequest, re
 router.get('/insights', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user!.id;
-    
-    // Get all user entries
-    const entries = await prisma.entry.findMany({
-      where: { userId, isDeleted: false },
-      select: {
-        title: true,
-        content: true,
-        dateCreated: true,
-        lastUpdated: true
-      }
-    });
-
-    // Most used words
-    const wordFrequency = getMostUsedWords(entries);
-    
-    // Writing patterns
-    const writingPatterns = getWritingPatterns(entries);
-    
-    // Content insights
-    const contentInsights = getContentInsights(entries);
+    const timeZone = await getUserTimeZone(userId);
+
+    const [mostUsedWords, writingPatterns, contentInsights] = await Promise.all([
+      prisma.wordCount.findMany({
+        where: { userId },
+        select: { word: true, count: true },
+        orderBy: [{ count: 'desc' }, { word: 'asc' }],
+        take: 20
+      }),
+      getWritingPatterns(userId),
+      getContentInsights(userId)
+    ]);
 
     res.json({
-      mostUsedWords: wordFrequency.slice(0, 20),
+      timezone: timeZone,
+      mostUsedWords,
       writingPatterns,
       contentInsights
     });
@@ -130,101 +106,62 @@ router.get('/insights', authenticateToken, async (req: AuthenticatedRequest, res
   }
 });
 
-async function calculateWritingStreak(userId: string): Promise<number> {
-  const entries = await prisma.entry.findMany({
-    where: { userId, isDeleted: false },
-    select: { dateCreated: true },
-    orderBy: { dateCreated: 'desc' }
-  });
-
-  if (entries.length === 0) return 0;
-
-  let streak = 0;
-  let currentDate = new Date();
-  currentDate.setHours(0, 0, 0, 0);
-
-  const entryDates = entries.map(entry => {
-    const date = new Date(entry.dateCreated);
-    date.setHours(0, 0, 0, 0);
-    return date.getTime();
-  });
-
-  const uniqueDates = [...new Set(entryDates)].sort((a, b) => b - a);
+// Consecutive days with a new entry, counting back from today. Walking back
+// from today, the nth active day belongs to the streak exactly when it is n
+// days ago.
+async function calculateWritingStreak(userId: string, today: string): Promise<number> {
+  const rows = await prisma.$queryRaw<{ streak: number }[]>`
+    SELECT COUNT(*)::int AS streak
+    FROM (
+      SELECT ${today}::date - day AS days_ago, ROW_NUMBER() OVER (ORDER BY day DESC) - 1 AS offset_from_today
+      FROM daily_activity
+      WHERE user_id = ${userId} AND day <= ${today}::date AND entry_count > 0
+    ) active
+    WHERE days_ago = offset_from_today
+  `;
+
+  return rows[0]?.streak ?? 0;
+}
 
-  for (let i = 0; i < uniqueDates.length; i++) {
-    const entryDate = uniqueDates[i];
-    const expectedDate = currentDate.getTime() - (i * 24 * 60 * 60 * 1000);
-    
-    if (entryDate === expectedDate) {
-      streak++;
-    } else {
-      break;
-    }
-  }
+async function getMonthlyActivity(userId: string, timeZone: string) {
+  const { year, month } = zonedParts(new Date(), timeZone);
+  // Calendar months only, so they are handled as UTC dates
+  const firstMonth = new Date(Date.UTC(year, month - 12, 1));
 
-  return streak;
-}
+  const rows = await prisma.$queryRaw<{ month: string; count: number }[]>`
+    SELECT to_char(day, 'YYYY-MM') AS month, SUM(entry_count)::int AS count
+    FROM daily_activity
+    WHERE user_id = ${userId} AND day >= ${firstMonth.toISOString().slice(0, 10)}::date
+    GROUP BY 1
+  `;
+  const counts = new Map(rows.map(row => [row.month, row.count]));
 
-async function getMonthlyActivity(userId: string) {
-  const now = new Date();
   const months = [];
-  
   for (let i = 11; i >= 0; i--) {
-    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-    const nextMonth = new Date(now.getFullYear(), now.getMonth() - i + 1, 1);
-    
-    const count = await prisma.entry.count({
-      where: {
-        userId,
-        isDeleted: false,
-        dateCreated: {
-          gte: date,
-          lt: nextMonth
-        }
-      }
-    });
-    
+    const date = new Date(Date.UTC(year, month - 1 - i, 1));
+
     months.push({
-      month: date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-      count
+      month: date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+      count: counts.get(date.toISOString().slice(0, 7)) ?? 0
     });
   }
-  
+
   return months;
 }
 
-function getMostUsedWords(entries: any[]): { word: string; count: number }[] {
-  const commonWords = ['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they'];
-  
-  const wordCount: { [key: string]: number } = {};
-  
-  entries.forEach(entry => {
-    const words = entry.content
-      .toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(/\s+/)
-      .filter((word: string) => word.length > 3 && !commonWords.includes(word));
-    
-    words.forEach((word: string) => {
-      wordCount[word] = (wordCount[word] || 0) + 1;
-    });
+async function getWritingPatterns(userId: string) {
+  const rows = await prisma.hourlyActivity.findMany({
+    where: { userId },
+    select: { hour: true, entryCount: true }
   });
-  
-  return Object.entries(wordCount)
-    .map(([word, count]) => ({ word, count }))
-    .sort((a, b) => b.count - a.count);
-}
 
-function getWritingPatterns(entries: any[]) {
   const hourCounts = new Array(24).fill(0);
-  
-  entries.forEach(entry => {
-    const hour = new Date(entry.dateCreated).getHours();
-    hourCounts[hour]++;
+  rows.forEach(row => {
+    hourCounts[row.hour] = row.entryCount;
   });
-  
+
   const peakHour = hourCounts.indexOf(Math.max(...hourCounts));
-  
+
   return {
     peakWritingHour: peakHour,
     hourlyDistribution: hourCounts.map((count, hour) => ({
@@ -234,27 +171,27 @@ function getWritingPatterns(entries: any[]) {
   };
 }
 
-function getContentInsights(entries: any[]) {
-  const totalEntries = entries.length;
-  const totalWords = entries.reduce((sum, entry) => sum + entry.content.split(/\s+/).length, 0);
-  const avgWordsPerEntry = totalEntries > 0 ? Math.round(totalWords / totalEntries) : 0;
-  
-  const shortEntries = entries.filter(entry => entry.content.split(/\s+/).length < 100).length;
-  const mediumEntries = entries.filter(entry => {
-    const wordCount = entry.content.split(/\s+/).length;
-    return wordCount >= 100 && wordCount < 500;
-  }).length;
-  const longEntries = entries.filter(entry => entry.content.split(/\s+/).length >= 500).length;
-  
+async function getContentInsights(userId: string) {
+  const [totals, buckets] = await Promise.all([
+    prisma.dailyActivity.aggregate({
+      where: { userId },
+      _sum: { entryCount: true, wordCount: true }
+    }),
+    prisma.lengthBucket.findMany({
+      where: { userId },
+      select: { bucket: true, entryCount: true }
+    })
+  ]);
+
+  const totalEntries = totals._sum.entryCount ?? 0;
+  const totalWords = totals._sum.wordCount ?? 0;
+  const counts = new Map(buckets.map(row => [row.bucket, row.entryCount]));
+
   return {
     totalWords,
-    avgWordsPerEntry,
-    entryLengthDistribution: {
-      short: shortEntries,
-      medium: mediumEntries,
-      long: longEntries
-    }
+    avgWordsPerEntry: totalEntries > 0 ? Math.round(totalWords / totalEntries) : 0,
+    entryLengthDistribution: Object.fromEntries(LENGTH_BUCKETS.map(bucket => [bucket, counts.get(bucket) ?? 0]))
   };
 }
 
-export default router;
\ No newline at end of file
+export default router;
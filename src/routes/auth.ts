@@ -1,16 +1,48 @@
 import express, { Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, User } from '@prisma/client';
 import { authenticateToken } from '../middleware/auth';
 import { AuthenticatedRequest, RegisterData, LoginData, UpdatePasswordData } from '../types';
 import { verifyCaptcha } from '../utils/captcha';
+import {
+  createSession,
+  rotateSession,
+  findSessionByRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  RefreshConflictError
+} from '../utils/sessions';
+import { createUserToken, consumeUserToken, TOKEN_TYPES } from '../utils/userTokens';
+import { sendPasswordResetEmail, startEmailVerification } from '../utils/emails';
+import { signTwoFactorChallenge } from '../utils/twoFactor';
+import { findInvitationByToken, claimShareInvitations } from '../utils/shareInvitations';
+import { canReactivate, reactivateAccount } from '../utils/accounts';
 // import { verifyCaptcha } from '../utils/captcha';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+// The account fields a login returns. Picked one by one so password hashes,
+// 2FA state and columns added later never leave by accident.
+const toLoginUser = (user: User) => ({
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  email: user.email,
+  username: user.username,
+  avatar: user.avatar,
+  dateJoined: user.dateJoined,
+  lastProfileUpdate: user.lastProfileUpdate,
+  preferences: user.preferences,
+  timezone: user.timezone,
+  emailVerified: user.emailVerified,
+  pendingEmail: user.pendingEmail,
+  twoFactorEnabled: user.twoFactorEnabled,
+  isDeleted: false,
+  deactivatedAt: null
+});
+
 // Register user
 router.post('/register', [
   body('firstName').trim().notEmpty().withMessage('First name is required'),
@@ -21,7 +53,8 @@ router.post('/register', [
   body('captchaId').notEmpty().withMessage('Captcha ID is required'),
   body('captchaText').notEmpty().withMessage('Captcha text is required'),
   body('captchaId').notEmpty().withMessage('Captcha is required'),
-  body('captchaText').notEmpty().withMessage('Captcha text is required')
+  body('captchaText').notEmpty().withMessage('Captcha text is required'),
+  body('invitationToken').optional().isString()
 ], async (req: express.Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -57,6 +90,12 @@ router.post('/register', [
       return;
     }
 
+    // Signing up from a share invitation sent to this address proves it's theirs
+    const invitation = req.body.invitationToken
+      ? await findInvitationByToken(req.body.invitationToken)
+      : null;
+    const invitedAddress = invitation?.email === email.toLowerCase();
+
     // Hash password
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
@@ -68,7 +107,8 @@ router.post('/register', [
         lastName,
         username: username.toLowerCase(),
         email: email.toLowerCase(),
-        password: hashedPassword
+        password: hashedPassword,
+        emailVerified: invitedAddress
       },
       select: {
         id: true,
@@ -76,13 +116,27 @@ router.post('/register', [
         lastName: true,
         username: true,
         email: true,
+        emailVerified: true,
         dateJoined: true
       }
     });
 
+    let acceptedInvitations = 0;
+    if (invitedAddress) {
+      acceptedInvitations = await claimShareInvitations(user.id, user.email);
+    } else {
+      // A failed verification email shouldn't fail the registration
+      try {
+        await startEmailVerification(user.id, user.firstName, user.email);
+      } catch (mailError) {
+        console.warn('Failed to send verification email:', mailError);
+      }
+    }
+
     res.status(201).json({
       message: 'User registered successfully',
-      user
+      user,
+      acceptedInvitations
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -117,18 +171,18 @@ router.post('/login', [
     }
     console.log('Captcha verification successful');
 
-    // Find user by email or username
+    // Find user by email or username; deactivated accounts can still log in
+    // during their grace period
     const user = await prisma.user.findFirst({
       where: {
         OR: [
           { email: emailOrUsername.toLowerCase() },
           { username: emailOrUsername.toLowerCase() }
-        ],
-        isDeleted: false
+        ]
       }
     });
 
-    if (!user) {
+    if (!user || (user.isDeleted && !canReactivate(user))) {
       console.log('User not found:', emailOrUsername);
       res.status(401).json({ message: 'Invalid credentials' });
       return;
@@ -144,39 +198,39 @@ router.post('/login', [
 
     console.log('Password validation successful for user:', emailOrUsername);
 
-    // Generate JWT token
-    // const jwtSecret = process.env.JWT_SECRET;
-    // if (!jwtSecret) {
-    //   console.error('JWT_SECRET not found in environment variables');
-    //   res.status(500).json({ message: 'JWT secret not configured' });
-    //   return;
-    // }
-
-    // const token = jwt.sign(
-    //   { userId: user.id },
-    //   jwtSecret,
-    //   { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-    // );
-
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      res.status(500).json({ message: 'JWT secret not configured' });
+    // With 2FA on, the password only earns a challenge for /api/auth/2fa/verify
+    if (user.twoFactorEnabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: await signTwoFactorChallenge(user.id)
+      });
       return;
     }
 
-    const token = jwt.sign(
-      { userId: user.id },
-      jwtSecret
-    );    
+    // Logging in cancels a pending deletion
+    const reactivated = user.isDeleted;
+    if (reactivated) {
+      await reactivateAccount(user.id);
+    }
+
+    // Start a session: short-lived access token plus a rotating refresh token
+    const { token, refreshToken, expiresIn } = await createSession(user.id, req);
 
-    // Return user data (without password)
-    const { password: _, ...userWithoutPassword } = user;
+    // Shares sent to this address before it had an account
+    const acceptedInvitations = user.emailVerified
+      ? await claimShareInvitations(user.id, user.email)
+      : 0;
 
     console.log('Login successful, sending response for user:', user.email);
     res.json({
       message: 'Login successful',
       token,
-      user: userWithoutPassword
+      refreshToken,
+      expiresIn,
+      user: toLoginUser(user),
+      acceptedInvitations,
+      reactivated
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -235,16 +289,300 @@ router.post('/password', authenticateToken, [
       }
     });
 
-    res.json({ message: 'Password updated successfully' });
+    // Sign out every other device
+    const revokedSessions = await revokeUserSessions(userId, req.sessionId);
+
+    res.json({ message: 'Password updated successfully', revokedSessions });
   } catch (error) {
     console.error('Password update error:', error);
     res.status(500).json({ message: 'Failed to update password' });
   }
 });
 
-// Logout (client-side token removal)
-router.post('/logout', (req: express.Request, res: Response): void => {
-  res.json({ message: 'Logout successful' });
+// Request a password reset link
+router.post('/forgot-password', [
+  body('email').isEmail().withMessage('Valid email is required')
+], async (req: express.Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { email } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: { email: email.toLowerCase(), isDeleted: false }
+    });
+
+    // Same response either way so the endpoint can't be used to probe for
+    // accounts, even when sending the email fails
+    if (user) {
+      try {
+        const token = await createUserToken(user.id, TOKEN_TYPES.PASSWORD_RESET);
+        await sendPasswordResetEmail(user.email, user.firstName, token);
+      } catch (error) {
+        console.error('Password reset email error:', error);
+      }
+    }
+
+    res.json({ message: 'If an account exists for that email, a reset link has been sent' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ message: 'Failed to send password reset email' });
+  }
+});
+
+// Reset password with a token from the reset email
+router.post('/reset-password', [
+  body('token').notEmpty().withMessage('Reset token is required'),
+  body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters'),
+  body('confirmPassword').custom((value, { req }) => {
+    if (value !== req.body.newPassword) {
+      throw new Error('Passwords do not match');
+    }
+    return value;
+  })
+], async (req: express.Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { token, newPassword } = req.body;
+
+    const resetToken = await consumeUserToken(token, TOKEN_TYPES.PASSWORD_RESET);
+
+    if (!resetToken) {
+      res.status(400).json({ message: 'Invalid or expired reset token' });
+      return;
+    }
+
+    const saltRounds = 12;
+    const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+
+    // Receiving the reset email proves ownership of the address
+    await prisma.user.update({
+      where: { id: resetToken.userId },
+      data: {
+        password: hashedPassword,
+        emailVerified: true,
+        lastProfileUpdate: new Date()
+      }
+    });
+
+    // Anyone holding the old password gets signed out
+    await revokeUserSessions(resetToken.userId);
+
+    res.json({ message: 'Password reset successfully' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ message: 'Failed to reset password' });
+  }
+});
+
+// Confirm an email address (new account or changed address)
+router.post('/verify-email', [
+  body('token').notEmpty().withMessage('Verification token is required')
+], async (req: express.Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const verificationToken = await consumeUserToken(req.body.token, TOKEN_TYPES.EMAIL_VERIFICATION);
+
+    if (!verificationToken || !verificationToken.email) {
+      res.status(400).json({ message: 'Invalid or expired verification token' });
+      return;
+    }
+
+    const email = verificationToken.email;
+
+    // The address may have been taken while the change was pending
+    const emailTaken = await prisma.user.findFirst({
+      where: { email, id: { not: verificationToken.userId } }
+    });
+
+    if (emailTaken) {
+      res.status(400).json({ message: 'Email already taken by another user' });
+      return;
+    }
+
+    const user = await prisma.user.update({
+      where: { id: verificationToken.userId },
+      data: {
+        email,
+        emailVerified: true,
+        pendingEmail: null
+      },
+      select: {
+        id: true,
+        email: true,
+        emailVerified: true
+      }
+    });
+
+    const acceptedInvitations = await claimShareInvitations(user.id, user.email);
+
+    res.json({ message: 'Email verified successfully', user, acceptedInvitations });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({ message: 'Failed to verify email' });
+  }
+});
+
+// Send the verification email again
+router.post('/resend-verification', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { id: true, firstName: true, email: true, emailVerified: true, pendingEmail: true }
+    });
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const email = user.pendingEmail || (!user.emailVerified ? user.email : null);
+    if (!email) {
+      res.status(400).json({ message: 'Email is already verified' });
+      return;
+    }
+
+    await startEmailVerification(user.id, user.firstName, email);
+
+    res.json({ message: 'Verification email sent', email });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ message: 'Failed to send verification email' });
+  }
+});
+
+// Exchange a refresh token for a new access token (the refresh token rotates)
+router.post('/refresh', [
+  body('refreshToken').notEmpty().withMessage('Refresh token is required')
+], async (req: express.Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const tokens = await rotateSession(req.body.refreshToken, req);
+
+    if (!tokens) {
+      res.status(401).json({ message: 'Invalid or expired refresh token' });
+      return;
+    }
+
+    res.json({
+      message: 'Token refreshed successfully',
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn
+    });
+  } catch (error) {
+    if (error instanceof RefreshConflictError) {
+      res.status(409).json({ message: 'Refresh token was already used by another request, use the tokens it returned' });
+      return;
+    }
+    console.error('Token refresh error:', error);
+    res.status(500).json({ message: 'Failed to refresh token' });
+  }
+});
+
+// Logout - revokes the session of the given refresh token or access token
+router.post('/logout', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (refreshToken) {
+      const session = await findSessionByRefreshToken(refreshToken);
+      if (session) {
+        await revokeSession(session.id);
+      }
+      res.json({ message: 'Logout successful' });
+      return;
+    }
+
+    await authenticateToken(req, res, () => {
+      revokeSession(req.sessionId!)
+        .then(() => res.json({ message: 'Logout successful' }))
+        .catch(error => {
+          console.error('Logout error:', error);
+          res.status(500).json({ message: 'Failed to logout' });
+        });
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Failed to logout' });
+  }
+});
+
+// List active sessions
+router.get('/sessions', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === req.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Failed to get sessions' });
+  }
+});
+
+// Revoke a specific session
+router.delete('/sessions/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const session = await prisma.session.findFirst({
+      where: { id, userId, revokedAt: null }
+    });
+
+    if (!session) {
+      res.status(404).json({ message: 'Session not found' });
+      return;
+    }
+
+    await revokeSession(id);
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Failed to revoke session' });
+  }
 });
 
 export default router;
\ No newline at end of file
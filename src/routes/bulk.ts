@@ -0,0 +1,101 @@
+import express, { Response } from 'express';
+import { body, validationResult, Meta } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { normalizeTagNames } from '../utils/tags';
+import { BULK_ACTIONS, BULK_MAX_ENTRIES, BulkAction, BulkActionParams, runBulkAction } from '../utils/bulkActions';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const needs = (...actions: BulkAction[]) => (value: unknown, { req }: Meta) => actions.includes(req.body.action);
+
+// Apply one action to many entries at once. Each id gets its own result;
+// entries that can't be changed don't stop the others.
+router.post('/entries/bulk', authenticateToken, [
+  body('action').isIn(BULK_ACTIONS).withMessage(`Action must be one of ${BULK_ACTIONS.join(', ')}`),
+  body('ids').isArray({ min: 1, max: BULK_MAX_ENTRIES }).withMessage(`ids must list between 1 and ${BULK_MAX_ENTRIES} entries`),
+  body('ids.*').isUUID().withMessage('Valid entry IDs are required'),
+  body('tags').if(needs('tag', 'untag')).isArray({ min: 1 }).withMessage('tags must be a non-empty array'),
+  body('tags.*').if(needs('tag', 'untag')).isString().trim().notEmpty().withMessage('Tag names cannot be empty'),
+  body('notebookId').if(needs('move')).optional({ values: 'null' }).isUUID().withMessage('Valid notebook ID is required'),
+  body('shareWithEmail').if(needs('share')).isEmail().withMessage('Valid email is required'),
+  body('permission').if(needs('share')).isIn(['read', 'edit']).withMessage('Permission must be read or edit')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const action: BulkAction = req.body.action;
+    const ids: string[] = req.body.ids;
+    const userId = req.user!.id;
+    const params: BulkActionParams = {};
+
+    if (action === 'tag' || action === 'untag') {
+      params.tagNames = normalizeTagNames(req.body.tags);
+    }
+
+    if (action === 'move') {
+      const notebookId: string | null = req.body.notebookId || null;
+
+      if (notebookId) {
+        const notebook = await prisma.notebook.findFirst({
+          where: { id: notebookId, userId }
+        });
+
+        if (!notebook) {
+          res.status(404).json({ message: 'Notebook not found' });
+          return;
+        }
+      }
+
+      params.notebookId = notebookId;
+    }
+
+    if (action === 'share') {
+      const email = (req.body.shareWithEmail as string).toLowerCase();
+
+      if (email === req.user!.email.toLowerCase()) {
+        res.status(400).json({ message: 'Cannot share note with yourself' });
+        return;
+      }
+
+      // Invitations for addresses without an account go through /api/collaboration/share
+      const shareWithUser = await prisma.user.findUnique({
+        where: { email }
+      });
+
+      if (!shareWithUser) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      params.shareWithId = shareWithUser.id;
+      params.permission = req.body.permission;
+    }
+
+    const results = await runBulkAction(userId, action, ids, params);
+    const succeeded = results.filter(result => result.success).length;
+    const failed = results.length - succeeded;
+
+    // 207 tells the client to look at the individual results
+    res.status(failed > 0 ? 207 : 200).json({
+      message: failed > 0
+        ? `${succeeded} of ${results.length} entries updated`
+        : 'All entries updated successfully',
+      action,
+      succeeded,
+      failed,
+      results
+    });
+  } catch (error) {
+    console.error('Bulk entries error:', error);
+    res.status(500).json({ message: 'Failed to update entries' });
+  }
+});
+
+export default router;
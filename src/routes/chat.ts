@@ -0,0 +1,177 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { retrievePassages } from '../utils/retrieval';
+import { answerQuestion, ChatTurn } from '../utils/ai';
+import { aiRateLimiter, enforceAIQuota } from '../middleware/aiLimits';
+import { recordAIUsage } from '../utils/aiUsage';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Earlier messages sent along with a follow-up question
+const HISTORY_LENGTH = 6;
+
+// Ask a question about your notes, optionally continuing a thread
+router.post('/', authenticateToken, aiRateLimiter, enforceAIQuota, [
+  body('question').trim().notEmpty().withMessage('Question is required')
+    .isLength({ max: 2000 }).withMessage('Question must be at most 2000 characters'),
+  body('threadId').optional().isUUID().withMessage('Valid thread ID is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { question, threadId } = req.body;
+    const userId = req.user!.id;
+    const askedAt = new Date();
+
+    let history: ChatTurn[] = [];
+
+    if (threadId) {
+      const thread = await prisma.chatThread.findFirst({
+        where: { id: threadId, userId },
+        include: {
+          messages: {
+            orderBy: { createdAt: 'desc' },
+            take: HISTORY_LENGTH
+          }
+        }
+      });
+
+      if (!thread) {
+        res.status(404).json({ message: 'Thread not found' });
+        return;
+      }
+
+      history = thread.messages
+        .reverse()
+        .map(message => ({ role: message.role as ChatTurn['role'], content: message.content }));
+    }
+
+    // Follow-ups like "and what did we decide?" lean on the previous question for retrieval
+    const previousQuestion = [...history].reverse().find(turn => turn.role === 'user')?.content;
+    const passages = await retrievePassages(userId, previousQuestion ? `${question} ${previousQuestion}` : question);
+
+    const { result, provider, degraded, usage } = await answerQuestion(question, passages, history);
+    await recordAIUsage(userId, 'chat', { provider, degraded, usage });
+
+    const citations = result.cited.map(index => ({
+      index,
+      entryId: passages[index - 1].entryId,
+      title: passages[index - 1].title,
+      passage: passages[index - 1].text
+    }));
+
+    const thread = threadId
+      ? await prisma.chatThread.update({ where: { id: threadId }, data: { updatedAt: new Date() } })
+      : await prisma.chatThread.create({
+        data: { userId, title: question.length > 80 ? `${question.slice(0, 77)}...` : question }
+      });
+
+    const [, message] = await prisma.$transaction([
+      prisma.chatMessage.create({
+        data: { threadId: thread.id, role: 'user', content: question, createdAt: askedAt }
+      }),
+      prisma.chatMessage.create({
+        data: {
+          threadId: thread.id,
+          role: 'assistant',
+          content: result.answer,
+          citations: citations as unknown as Prisma.InputJsonValue
+        }
+      })
+    ]);
+
+    res.status(threadId ? 200 : 201).json({
+      threadId: thread.id,
+      message,
+      answer: result.answer,
+      citations,
+      passages: passages.map(({ entryId, title, text }, index) => ({ index: index + 1, entryId, title, passage: text })),
+      provider,
+      degraded
+    });
+  } catch (error) {
+    console.error('Chat error:', error);
+    res.status(500).json({ message: 'Failed to answer question' });
+  }
+});
+
+// List chat threads, most recently active first
+router.get('/threads', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const threads = await prisma.chatThread.findMany({
+      where: { userId },
+      include: {
+        _count: { select: { messages: true } }
+      },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    res.json({ threads });
+  } catch (error) {
+    console.error('Get chat threads error:', error);
+    res.status(500).json({ message: 'Failed to get chat threads' });
+  }
+});
+
+// Get a thread with all of its messages
+router.get('/threads/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const thread = await prisma.chatThread.findFirst({
+      where: { id, userId },
+      include: {
+        messages: { orderBy: { createdAt: 'asc' } }
+      }
+    });
+
+    if (!thread) {
+      res.status(404).json({ message: 'Thread not found' });
+      return;
+    }
+
+    res.json({ thread });
+  } catch (error) {
+    console.error('Get chat thread error:', error);
+    res.status(500).json({ message: 'Failed to get chat thread' });
+  }
+});
+
+// Delete a thread and its messages
+router.delete('/threads/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const thread = await prisma.chatThread.findFirst({
+      where: { id, userId }
+    });
+
+    if (!thread) {
+      res.status(404).json({ message: 'Thread not found' });
+      return;
+    }
+
+    await prisma.chatThread.delete({
+      where: { id }
+    });
+
+    res.json({ message: 'Thread deleted successfully' });
+  } catch (error) {
+    console.error('Delete chat thread error:', error);
+    res.status(500).json({ message: 'Failed to delete chat thread' });
+  }
+});
+
+export default router;
@@ -0,0 +1,255 @@
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import crypto from 'crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { verifyAccessToken, AuthenticatedUser } from '../middleware/auth';
+import { getEntryAccess } from '../utils/entryAccess';
+import { isValidOp } from '../utils/ot';
+import {
+  joinRoom,
+  leaveRoom,
+  applyClientOp,
+  refreshClientAccess,
+  evictClient,
+  broadcast,
+  toPeer,
+  CollabClient,
+  CollabRoom,
+  CollabError,
+  CursorRange
+} from '../utils/collabRooms';
+
+const COLLAB_PATH = '/api/collab';
+const MAX_MESSAGE_BYTES = 256 * 1024;
+const PING_INTERVAL_MS = 30000;
+
+interface ClientMessage {
+  type?: string;
+  entryId?: unknown;
+  version?: unknown;
+  op?: unknown;
+  cursor?: unknown;
+}
+
+function isCursor(value: unknown, contentLength: number): value is CursorRange {
+  const cursor = value as CursorRange;
+  return typeof value === 'object' && value !== null &&
+    [cursor.anchor, cursor.head].every(position => Number.isInteger(position) && position >= 0 && position <= contentLength);
+}
+
+const rejectUpgrade = (socket: Duplex, status: number, message: string) => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+// One connection can hold several entry rooms; it appears as the same
+// clientId in each of them
+const handleConnection = (ws: WebSocket, user: AuthenticatedUser, sessionId: string) => {
+  const clientId = crypto.randomUUID();
+  const rooms = new Map<string, { room: CollabRoom; client: CollabClient }>();
+  let queue = Promise.resolve();
+
+  const send = (message: object) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  // The room this connection holds for the entry, unless it has closed or
+  // removed this client since
+  const currentRoom = (entryId: string) => {
+    const joined = rooms.get(entryId);
+    if (joined && (joined.room.closed || joined.room.clients.get(clientId) !== joined.client)) {
+      rooms.delete(entryId);
+      return undefined;
+    }
+    return joined;
+  };
+
+  const handleMessage = async (data: RawData) => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send({ type: 'error', code: 'invalid_message', message: 'Messages must be JSON' });
+      return;
+    }
+
+    const entryId = typeof message.entryId === 'string' ? message.entryId : null;
+    if (!entryId) {
+      send({ type: 'error', code: 'invalid_message', message: 'entryId is required' });
+      return;
+    }
+
+    try {
+      if (message.type === 'join') {
+        const access = await getEntryAccess(entryId, user.id);
+        if (!access) {
+          throw new CollabError('Entry not found', 'not_found');
+        }
+
+        const client: CollabClient = {
+          clientId,
+          userId: user.id,
+          username: user.username,
+          permission: access.permission,
+          cursor: null,
+          sessionId,
+          send
+        };
+
+        const room = currentRoom(entryId)?.room ?? await joinRoom(entryId, client);
+        rooms.set(entryId, { room, client: room.clients.get(clientId) ?? client });
+
+        send({
+          type: 'joined',
+          entryId,
+          clientId,
+          permission: access.permission,
+          version: room.version,
+          content: room.content,
+          peers: Array.from(room.clients.values())
+            .filter(peer => peer.clientId !== clientId)
+            .map(toPeer)
+        });
+        return;
+      }
+
+      const joined = currentRoom(entryId);
+      if (!joined) {
+        throw new CollabError('Join the entry before sending changes', 'not_joined');
+      }
+      const { room, client } = joined;
+
+      switch (message.type) {
+        case 'op': {
+          if (!Number.isInteger(message.version) || !isValidOp(message.op)) {
+            throw new CollabError('A version and a valid operation are required', 'invalid_op');
+          }
+
+          // Shares, sessions and the entry itself can change while connected
+          if (!(await refreshClientAccess(room, client))) {
+            rooms.delete(entryId);
+            await evictClient(room, client);
+            break;
+          }
+
+          const applied = applyClientOp(room, client, message.version as number, message.op);
+          if (isCursor(message.cursor, room.content.length)) {
+            client.cursor = message.cursor;
+          }
+
+          send({ type: 'ack', entryId, version: applied.version });
+          broadcast(room, {
+            type: 'op',
+            entryId,
+            version: applied.version,
+            op: applied.op,
+            clientId,
+            userId: user.id,
+            cursor: client.cursor
+          }, clientId);
+          break;
+        }
+        case 'cursor': {
+          if (!isCursor(message.cursor, room.content.length)) {
+            throw new CollabError('Cursor positions must be within the document', 'invalid_cursor');
+          }
+
+          client.cursor = message.cursor;
+          broadcast(room, { type: 'cursor', entryId, clientId, userId: user.id, cursor: client.cursor }, clientId);
+          break;
+        }
+        case 'leave':
+          rooms.delete(entryId);
+          await leaveRoom(entryId, clientId);
+          break;
+        default:
+          throw new CollabError('Unknown message type', 'invalid_message');
+      }
+    } catch (error: any) {
+      if (error instanceof CollabError) {
+        send({ type: 'error', entryId, code: error.code, message: error.message });
+        return;
+      }
+      console.error('Collaboration message error:', error);
+      send({ type: 'error', entryId, code: 'server_error', message: 'Something went wrong' });
+    }
+  };
+
+  // Messages are handled one at a time so an edit can't overtake its join
+  ws.on('message', (data) => {
+    queue = queue.then(() => handleMessage(data));
+  });
+
+  // Oversized or malformed frames are reported here; ws closes the socket
+  // afterwards, and 'close' leaves the rooms
+  ws.on('error', (error) => {
+    console.error('Collaboration socket error:', error);
+  });
+
+  ws.on('close', () => {
+    queue = queue.then(async () => {
+      for (const entryId of rooms.keys()) {
+        await leaveRoom(entryId, clientId).catch(error => console.error('Collaboration leave error:', error));
+      }
+      rooms.clear();
+    });
+  });
+};
+
+// Real-time collaborative editing at ws(s)://<host>/api/collab?token=<access token>.
+// Uses the same access tokens and sessions as authenticateToken.
+export const attachCollabServer = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== COLLAB_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    // Browsers can't set headers on a WebSocket, so the token may come in the query string
+    const token = url.searchParams.get('token') || req.headers['authorization']?.split(' ')[1];
+    const jwtSecret = process.env.JWT_SECRET;
+
+    if (!token || !jwtSecret) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    try {
+      const result = await verifyAccessToken(token, jwtSecret);
+      if ('error' in result) {
+        rejectUpgrade(socket, 401, 'Unauthorized');
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        alive.set(ws, true);
+        ws.on('pong', () => alive.set(ws, true));
+        handleConnection(ws, result.user, result.sessionId);
+      });
+    } catch {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+  });
+
+  // Dropping connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, PING_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+};
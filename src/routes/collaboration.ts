@@ -1,7 +1,19 @@
 import express, { Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken } from '../middleware/auth';
+import { getEntryAccess, canManageEntry } from '../utils/entryAccess';
+import { createShareLink, toShareLinkSummary } from '../utils/shareLinks';
+import {
+  INVITATION_STATUS,
+  inviteToEntry,
+  resendInvitation,
+  findInvitationByToken,
+  acceptInvitation,
+  declineInvitation,
+  isInvitationOpen,
+  toInvitationSummary
+} from '../utils/shareInvitations';
 import { AuthenticatedRequest } from '../types';
 
 const router = express.Router();
@@ -71,22 +83,38 @@ router.post('/share', authenticateToken, [
       return;
     }
 
-    const entry = await prisma.entry.findFirst({
-      where: { id: entryId, userId, isDeleted: false }
-    });
+    const access = await getEntryAccess(entryId, userId);
 
-    if (!entry) {
+    if (!access) {
       res.status(404).json({ message: 'Entry not found' });
       return;
     }
 
+    // Collaborators cannot re-share an entry they don't own
+    if (!canManageEntry(access.permission)) {
+      res.status(403).json({ message: 'Only the owner can share this entry' });
+      return;
+    }
+
     // Finding a user to share notes with
     const shareWithUser = await prisma.user.findUnique({
       where: { email: shareWithEmail.toLowerCase() }
     });
 
+    // No account yet: invite the address instead
     if (!shareWithUser) {
-      res.status(404).json({ message: 'User not found' });
+      const { invitation, emailSent, created } = await inviteToEntry(
+        entryId,
+        userId,
+        shareWithEmail.toLowerCase(),
+        permission
+      );
+
+      res.status(created ? 201 : 200).json({
+        message: created ? 'Invitation sent successfully' : 'Invitation updated successfully',
+        invitation: toInvitationSummary(invitation),
+        emailSent
+      });
       return;
     }
 
@@ -259,4 +287,384 @@ router.delete('/share/:shareId', authenticateToken, async (req: AuthenticatedReq
   }
 });
 
+// Listing invitations I've sent, pending ones by default
+router.get('/invitations', authenticateToken, [
+  query('entryId').optional().isUUID().withMessage('entryId must be a valid ID'),
+  query('status').optional().isIn(Object.values(INVITATION_STATUS)).withMessage('Invalid invitation status')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const entryId = req.query.entryId as string | undefined;
+    const status = (req.query.status as string | undefined) || INVITATION_STATUS.PENDING;
+
+    const invitations = await prisma.shareInvitation.findMany({
+      where: {
+        invitedById: userId,
+        status,
+        ...(entryId && { entryId })
+      },
+      include: {
+        entry: { select: { id: true, title: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      invitations: invitations.map(({ entry, ...invitation }) => ({
+        ...toInvitationSummary(invitation),
+        entry
+      }))
+    });
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({ message: 'Failed to get invitations' });
+  }
+});
+
+// Sending a pending invitation again with a fresh link and expiry
+router.post('/invitations/:id/resend', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const invitation = await prisma.shareInvitation.findFirst({
+      where: {
+        id: req.params.id,
+        invitedById: req.user!.id,
+        status: INVITATION_STATUS.PENDING
+      }
+    });
+
+    if (!invitation) {
+      res.status(404).json({ message: 'Invitation not found' });
+      return;
+    }
+
+    const { invitation: resent, emailSent } = await resendInvitation(invitation);
+
+    res.json({
+      message: 'Invitation resent successfully',
+      invitation: toInvitationSummary(resent),
+      emailSent
+    });
+  } catch (error) {
+    console.error('Resend invitation error:', error);
+    res.status(500).json({ message: 'Failed to resend invitation' });
+  }
+});
+
+router.delete('/invitations/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { count } = await prisma.shareInvitation.updateMany({
+      where: {
+        id: req.params.id,
+        invitedById: req.user!.id,
+        status: INVITATION_STATUS.PENDING
+      },
+      data: {
+        status: INVITATION_STATUS.CANCELLED,
+        respondedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      res.status(404).json({ message: 'Invitation not found' });
+      return;
+    }
+
+    res.json({ message: 'Invitation cancelled successfully' });
+  } catch (error) {
+    console.error('Cancel invitation error:', error);
+    res.status(500).json({ message: 'Failed to cancel invitation' });
+  }
+});
+
+// Details for the invitation landing page, so the invitee can sign up with
+// the right address. No account needed.
+router.get('/invitations/lookup', [
+  query('token').notEmpty().withMessage('Invitation token is required')
+], async (req: express.Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const invitation = await findInvitationByToken(req.query.token as string);
+
+    if (!invitation) {
+      res.status(404).json({ message: 'Invalid or expired invitation' });
+      return;
+    }
+
+    const [entry, invitedBy, existingUser] = await Promise.all([
+      prisma.entry.findUnique({ where: { id: invitation.entryId }, select: { title: true } }),
+      prisma.user.findUnique({ where: { id: invitation.invitedById }, select: { firstName: true, lastName: true } }),
+      prisma.user.findUnique({ where: { email: invitation.email }, select: { id: true } })
+    ]);
+
+    res.json({
+      invitation: {
+        email: invitation.email,
+        permission: invitation.permission,
+        expiresAt: invitation.expiresAt,
+        entryTitle: entry?.title ?? null,
+        invitedBy,
+        hasAccount: existingUser !== null
+      }
+    });
+  } catch (error) {
+    console.error('Lookup invitation error:', error);
+    res.status(500).json({ message: 'Failed to look up invitation' });
+  }
+});
+
+// Pending invitations addressed to my verified email
+router.get('/invitations/received', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { email: true, emailVerified: true }
+    });
+
+    if (!user?.emailVerified) {
+      res.json({ invitations: [] });
+      return;
+    }
+
+    const invitations = await prisma.shareInvitation.findMany({
+      where: {
+        email: user.email,
+        status: INVITATION_STATUS.PENDING,
+        expiresAt: { gt: new Date() }
+      },
+      include: {
+        entry: { select: { id: true, title: true } },
+        invitedBy: { select: { firstName: true, lastName: true, email: true, avatar: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      invitations: invitations.map(({ entry, invitedBy, ...invitation }) => ({
+        ...toInvitationSummary(invitation),
+        entry,
+        invitedBy
+      }))
+    });
+  } catch (error) {
+    console.error('Get received invitations error:', error);
+    res.status(500).json({ message: 'Failed to get invitations' });
+  }
+});
+
+// An invitation can be answered with the token from the email or by id, and
+// either way only from an account whose verified address it was sent to
+const findRecipientInvitation = async (req: AuthenticatedRequest) => {
+  const { token, invitationId } = req.body;
+
+  const [user, invitation] = await Promise.all([
+    prisma.user.findUnique({ where: { id: req.user!.id }, select: { email: true, emailVerified: true } }),
+    token
+      ? findInvitationByToken(token)
+      : prisma.shareInvitation.findUnique({ where: { id: invitationId } })
+  ]);
+
+  if (!user?.emailVerified || !invitation || invitation.email !== user.email || !isInvitationOpen(invitation)) {
+    return null;
+  }
+
+  return invitation;
+};
+
+const invitationResponseValidators = [
+  body('token').optional().isString(),
+  body('invitationId').optional().isUUID().withMessage('invitationId must be a valid ID'),
+  body().custom(value => Boolean(value?.token || value?.invitationId)).withMessage('A token or invitationId is required')
+];
+
+router.post('/invitations/accept', authenticateToken, invitationResponseValidators, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const invitation = await findRecipientInvitation(req);
+
+    if (!invitation || !(await acceptInvitation(invitation, req.user!.id))) {
+      res.status(404).json({ message: 'Invalid or expired invitation' });
+      return;
+    }
+
+    res.json({
+      message: 'Invitation accepted successfully',
+      entryId: invitation.entryId,
+      permission: invitation.permission
+    });
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    res.status(500).json({ message: 'Failed to accept invitation' });
+  }
+});
+
+router.post('/invitations/decline', authenticateToken, invitationResponseValidators, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const invitation = await findRecipientInvitation(req);
+
+    if (!invitation || !(await declineInvitation(invitation))) {
+      res.status(404).json({ message: 'Invalid or expired invitation' });
+      return;
+    }
+
+    res.json({ message: 'Invitation declined' });
+  } catch (error) {
+    console.error('Decline invitation error:', error);
+    res.status(500).json({ message: 'Failed to decline invitation' });
+  }
+});
+
+// Declining a share I've received; the entry disappears from my shared list
+router.delete('/shared-with-me/:shareId', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { count } = await prisma.sharedEntry.deleteMany({
+      where: {
+        id: req.params.shareId,
+        sharedWithId: req.user!.id
+      }
+    });
+
+    if (count === 0) {
+      res.status(404).json({ message: 'Share not found' });
+      return;
+    }
+
+    res.json({ message: 'Share declined successfully' });
+  } catch (error) {
+    console.error('Decline share error:', error);
+    res.status(500).json({ message: 'Failed to decline share' });
+  }
+});
+
+// Creating a read-only public link to an entry
+router.post('/entry/:entryId/links', authenticateToken, [
+  body('password').optional().isString().isLength({ min: 4, max: 128 }).withMessage('Password must be 4-128 characters'),
+  body('expiresAt').optional().isISO8601().withMessage('expiresAt must be a date')
+    .custom(value => new Date(value) > new Date()).withMessage('expiresAt must be in the future'),
+  body('maxViews').optional().isInt({ min: 1, max: 1000000 }).withMessage('maxViews must be a positive number')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { entryId } = req.params;
+    const { password, expiresAt, maxViews } = req.body;
+    const userId = req.user!.id;
+
+    const access = await getEntryAccess(entryId, userId);
+
+    if (!access) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    if (!canManageEntry(access.permission)) {
+      res.status(403).json({ message: 'Only the owner can share this entry' });
+      return;
+    }
+
+    const { token, link } = await createShareLink(entryId, userId, {
+      password,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      maxViews: maxViews !== undefined ? parseInt(maxViews, 10) : undefined
+    });
+
+    const path = `/api/shared/${token}`;
+
+    res.status(201).json({
+      message: 'Share link created successfully',
+      link: toShareLinkSummary(link),
+      token,
+      path,
+      url: `${req.protocol}://${req.get('host')}${path}`
+    });
+  } catch (error) {
+    console.error('Create share link error:', error);
+    res.status(500).json({ message: 'Failed to create share link' });
+  }
+});
+
+// Listing an entry's public links with their view counts
+router.get('/entry/:entryId/links', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { entryId } = req.params;
+    const userId = req.user!.id;
+
+    const entry = await prisma.entry.findFirst({
+      where: { id: entryId, userId, isDeleted: false }
+    });
+
+    if (!entry) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    const links = await prisma.shareLink.findMany({
+      where: { entryId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ links: links.map(toShareLinkSummary) });
+  } catch (error) {
+    console.error('Get share links error:', error);
+    res.status(500).json({ message: 'Failed to get share links' });
+  }
+});
+
+// Revoking a public link; it stays listed with its view count
+router.delete('/links/:linkId', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { linkId } = req.params;
+    const userId = req.user!.id;
+
+    const link = await prisma.shareLink.findFirst({
+      where: { id: linkId, entry: { userId } }
+    });
+
+    if (!link) {
+      res.status(404).json({ message: 'Share link not found' });
+      return;
+    }
+
+    const revoked = link.revokedAt
+      ? link
+      : await prisma.shareLink.update({
+          where: { id: linkId },
+          data: { revokedAt: new Date() }
+        });
+
+    res.json({
+      message: 'Share link revoked successfully',
+      link: toShareLinkSummary(revoked)
+    });
+  } catch (error) {
+    console.error('Revoke share link error:', error);
+    res.status(500).json({ message: 'Failed to revoke share link' });
+  }
+});
+
 export default router;
\ No newline at end of file
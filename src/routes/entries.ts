@@ -1,7 +1,26 @@
 import express, { Response } from 'express';
-import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { body, query, validationResult } from 'express-validator';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { authenticateToken } from '../middleware/auth';
+import { aiRateLimiter, enforceAIQuota } from '../middleware/aiLimits';
+import { getEntryAccess, lockEntry, canEditEntry, canManageEntry } from '../utils/entryAccess';
+import { recordRevision, ensureBaselineRevision } from '../utils/revisions';
+import { normalizeTagName } from '../utils/tags';
+import { entryListValidation, parseEntryListOptions, findEntryPage } from '../utils/pagination';
+import { queueEntryIndexing, findRelatedEntries } from '../utils/semanticIndex';
+import { getEmbeddingModel } from '../utils/ai';
+import { recordAIUsage } from '../utils/aiUsage';
+import {
+  entryETag,
+  entryVersion,
+  matchesETag,
+  parseExpectedVersion,
+  findVersionSnapshot,
+  VersionConflictError
+} from '../utils/entryVersion';
+import { mergeEntry } from '../utils/merge';
+import { purgeDate, permanentlyDeleteEntries, TRASH_RETENTION_DAYS } from '../utils/trash';
+import { countWords, addEntryStats, removeEntryStats, recordContentChange } from '../utils/entryStats';
 import { AuthenticatedRequest, CreateEntryData, UpdateEntryData } from '../types';
 
 const router = express.Router();
@@ -11,7 +30,8 @@ const prisma = new PrismaClient();
 router.post('/entries', authenticateToken, [
   body('title').trim().notEmpty().withMessage('Title is required'),
   body('synopsis').trim().notEmpty().withMessage('Synopsis is required'),
-  body('content').trim().notEmpty().withMessage('Content is required')
+  body('templateId').optional().isUUID().withMessage('Valid template ID is required'),
+  body('content').if(body('templateId').not().exists()).trim().notEmpty().withMessage('Content is required')
 ], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -20,18 +40,44 @@ router.post('/entries', authenticateToken, [
       return;
     }
 
-    const { title, synopsis, content }: CreateEntryData = req.body;
+    const { title, synopsis, content, templateId }: CreateEntryData = req.body;
     const userId = req.user!.id;
 
-    const entry = await prisma.entry.create({
-      data: {
-        title,
-        synopsis,
-        content,
-        userId
+    // Pre-fill content from one of the user's templates when requested
+    let entryContent = content;
+    if (templateId) {
+      const template = await prisma.template.findFirst({
+        where: { id: templateId, userId }
+      });
+
+      if (!template) {
+        res.status(404).json({ message: 'Template not found' });
+        return;
+      }
+
+      if (!entryContent || !entryContent.trim()) {
+        entryContent = template.content;
       }
+    }
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const createdEntry = await tx.entry.create({
+        data: {
+          title,
+          synopsis,
+          content: entryContent!,
+          wordCount: countWords(entryContent!),
+          userId
+        }
+      });
+
+      await recordRevision(tx, createdEntry, userId);
+      await addEntryStats(tx, userId, [createdEntry]);
+      return createdEntry;
     });
 
+    queueEntryIndexing(entry.id);
+
     res.status(201).json({
       message: 'Entry created successfully',
       entry
@@ -43,42 +89,61 @@ router.post('/entries', authenticateToken, [
 });
 
 // Get all user entries - this gets the active only
-router.get('/entries', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Optional filters: ?tag=<tag id or name>&notebook=<notebook id or "none">
+// Paging: ?limit=&cursor=&sort=created|updated|title&order=asc|desc&fields=summary|full|<list>
+router.get('/entries', authenticateToken, entryListValidation, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const userId = req.user!.id;
+    const { tag, notebook } = req.query;
+
+    const where: Prisma.EntryWhereInput = {
+      userId,
+      isDeleted: false
+    };
+
+    if (typeof tag === 'string' && tag) {
+      where.tags = {
+        some: {
+          tag: { OR: [{ id: tag }, { name: normalizeTagName(tag) }], userId }
+        }
+      };
+    }
 
-    const entries = await prisma.entry.findMany({
-      where: {
-        userId,
-        isDeleted: false
-      },
-      orderBy: {
-        lastUpdated: 'desc'
-      }
-    });
+    if (typeof notebook === 'string' && notebook) {
+      where.notebookId = notebook === 'none' ? null : notebook;
+    }
 
-    res.json({ entries });
+    const { entries, pagination } = await findEntryPage(where, parseEntryListOptions(req.query));
+
+    res.json({ entries, pagination });
   } catch (error) {
     console.error('Get entries error:', error);
     res.status(500).json({ message: 'Failed to get entries' });
   }
 });
 
-router.get('/notes', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/notes', authenticateToken, entryListValidation, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const userId = req.user!.id;
 
-    const entries = await prisma.entry.findMany({
-      where: {
-        userId,
-        isDeleted: false
-      },
-      orderBy: {
-        lastUpdated: 'desc'
-      }
-    });
+    const { entries, pagination } = await findEntryPage({
+      userId,
+      isDeleted: false
+    }, parseEntryListOptions(req.query));
 
-    res.json({ entries });
+    res.json({ entries, pagination });
   } catch (error) {
     console.error('Get notes error:', error);
     res.status(500).json({ message: 'Failed to get notes' });
@@ -86,54 +151,166 @@ router.get('/notes', authenticateToken, async (req: AuthenticatedRequest, res: R
 });
 
 // Get deleted entries (trash)
-router.get('/entries/trash', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/entries/trash', authenticateToken, entryListValidation, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const userId = req.user!.id;
 
-    const deletedEntries = await prisma.entry.findMany({
-      where: {
-        userId,
-        isDeleted: true
-      },
-      orderBy: {
-        lastUpdated: 'desc'
-      }
-    });
+    // The purge date is worked out from deletedAt, so it's always selected
+    const options = parseEntryListOptions(req.query);
+    if (!options.fields.includes('deletedAt')) {
+      options.fields.push('deletedAt');
+    }
 
-    res.json({ entries: deletedEntries });
+    const { entries: deletedEntries, pagination } = await findEntryPage({
+      userId,
+      isDeleted: true
+    }, options);
+
+    res.json({
+      entries: deletedEntries.map(entry => ({
+        ...entry,
+        purgeAt: purgeDate(entry.deletedAt ?? null)
+      })),
+      pagination,
+      retentionDays: TRASH_RETENTION_DAYS
+    });
   } catch (error) {
     console.error('Get trash error:', error);
     res.status(500).json({ message: 'Failed to get deleted entries' });
   }
 });
 
+// Empty the trash
+router.delete('/entries/trash', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const deletedCount = await permanentlyDeleteEntries({ userId: req.user!.id });
+
+    res.json({ message: 'Trash emptied successfully', deletedCount });
+  } catch (error) {
+    console.error('Empty trash error:', error);
+    res.status(500).json({ message: 'Failed to empty trash' });
+  }
+});
+
+// Permanently delete an entry from the trash
+router.delete('/entries/trash/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const deletedCount = await permanentlyDeleteEntries({ id, userId });
+
+    if (deletedCount === 0) {
+      res.status(404).json({ message: 'Deleted entry not found' });
+      return;
+    }
+
+    res.json({ message: 'Entry permanently deleted' });
+  } catch (error) {
+    console.error('Permanent delete error:', error);
+    res.status(500).json({ message: 'Failed to permanently delete entry' });
+  }
+});
+
 // Get specific entry
 router.get('/entry/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const userId = req.user!.id;
 
-    const entry = await prisma.entry.findFirst({
-      where: {
-        id,
-        userId,
-        isDeleted: false
-      }
-    });
+    // Owners and users the entry was shared with can read it
+    const access = await getEntryAccess(id, userId);
 
-    if (!entry) {
+    if (!access) {
       res.status(404).json({ message: 'Entry not found' });
       return;
     }
 
-    res.json({ entry });
+    res.setHeader('ETag', entryETag(access.entry));
+    if (matchesETag(req.headers['if-none-match'], access.entry)) {
+      res.status(304).end();
+      return;
+    }
+
+    res.json({ entry: access.entry, permission: access.permission, version: entryVersion(access.entry) });
   } catch (error) {
     console.error('Get entry error:', error);
     res.status(500).json({ message: 'Failed to get entry' });
   }
 });
 
+// Entries with similar meaning, using the embedding index. Limited and
+// metered like other AI requests since it may have to embed the entry.
+router.get('/entry/:id/related', authenticateToken, aiRateLimiter, enforceAIQuota, [
+  query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 5;
+
+    const access = await getEntryAccess(id, userId);
+
+    if (!access) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    const { matches, usage } = await findRelatedEntries(userId, id, limit);
+    if (usage) {
+      await recordAIUsage(userId, 'related-entries', { provider: getEmbeddingModel().name, degraded: false, usage });
+    }
+
+    res.json({ related: matches });
+  } catch (error) {
+    console.error('Get related entries error:', error);
+    res.status(500).json({ message: 'Failed to get related entries' });
+  }
+});
+
+// Answering a stale update with the current entry and a three-way merge of
+// the client's changes into it
+const sendVersionConflict = async (
+  res: Response,
+  entryId: string,
+  expectedVersion: number,
+  changes: UpdateEntryData
+): Promise<void> => {
+  const current = await prisma.entry.findUnique({ where: { id: entryId } });
+
+  if (!current) {
+    res.status(404).json({ message: 'Entry not found' });
+    return;
+  }
+
+  // Without a snapshot nothing is known about the common ancestor, so every
+  // difference is reported as a conflict
+  const base = await findVersionSnapshot(entryId, expectedVersion) ?? { title: '', synopsis: '', content: '' };
+
+  res.setHeader('ETag', entryETag(current));
+  res.status(409).json({
+    message: 'Entry has been changed since you loaded it',
+    current,
+    version: entryVersion(current),
+    merge: mergeEntry(base, changes, current)
+  });
+};
+
 // Update entry
+// Send If-Match: <ETag> (or `version` in the body) to reject the update with
+// 409 when someone else has changed the entry in the meantime
 router.patch('/entry/:id', authenticateToken, [
   body('title').optional().trim().notEmpty().withMessage('Title cannot be empty'),
   body('synopsis').optional().trim().notEmpty().withMessage('Synopsis cannot be empty'),
@@ -150,34 +327,81 @@ router.patch('/entry/:id', authenticateToken, [
     const { title, synopsis, content }: UpdateEntryData = req.body;
     const userId = req.user!.id;
 
-    // this checks if entry exists and belongs to user
-    const existingEntry = await prisma.entry.findFirst({
-      where: {
-        id,
-        userId,
-        isDeleted: false
-      }
-    });
+    const expectedVersion = parseExpectedVersion(req.headers['if-match'], req.body.version);
+    if (expectedVersion !== null && Number.isNaN(expectedVersion)) {
+      res.status(400).json({ message: 'Invalid entry version' });
+      return;
+    }
 
-    if (!existingEntry) {
+    // this checks if entry exists and the user owns it or has edit permission
+    const access = await getEntryAccess(id, userId);
+
+    if (!access) {
       res.status(404).json({ message: 'Entry not found' });
       return;
     }
 
+    if (!canEditEntry(access.permission)) {
+      res.status(403).json({ message: 'You do not have permission to edit this entry' });
+      return;
+    }
+
     // Update entry
     const updateData: any = {};
     if (title) updateData.title = title;
     if (synopsis) updateData.synopsis = synopsis;
-    if (content) updateData.content = content;
+    if (content) {
+      updateData.content = content;
+      updateData.wordCount = countWords(content);
+    }
 
-    const updatedEntry = await prisma.entry.update({
-      where: { id },
-      data: updateData
-    });
+    if (expectedVersion !== null && access.entry.lastUpdated.getTime() !== expectedVersion) {
+      await sendVersionConflict(res, id, expectedVersion, { title, synopsis, content });
+      return;
+    }
+
+    // Snapshot every update so earlier text can be restored later
+    let updatedEntry;
+    try {
+      updatedEntry = await prisma.$transaction(async (tx) => {
+        // The row is locked and read again: another update may have landed
+        // after the checks above, and the stats are adjusted from what it
+        // actually replaces
+        const current = await lockEntry(tx, id);
+        if (!current || current.isDeleted) return null;
+
+        if (expectedVersion !== null && current.lastUpdated.getTime() !== expectedVersion) {
+          throw new VersionConflictError();
+        }
+
+        await ensureBaselineRevision(tx, current);
+        const entry = await tx.entry.update({ where: { id }, data: updateData });
+
+        await recordRevision(tx, entry, userId);
+        await recordContentChange(tx, entry, current);
+        return entry;
+      });
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        await sendVersionConflict(res, id, expectedVersion!, { title, synopsis, content });
+        return;
+      }
+      throw error;
+    }
 
+    if (!updatedEntry) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    queueEntryIndexing(id);
+
+    res.setHeader('ETag', entryETag(updatedEntry));
     res.json({
       message: 'Entry updated successfully',
-      entry: updatedEntry
+      entry: updatedEntry,
+      permission: access.permission,
+      version: entryVersion(updatedEntry)
     });
   } catch (error) {
     console.error('Update entry error:', error);
@@ -205,12 +429,26 @@ router.patch('/entry/restore/:id', authenticateToken, async (req: AuthenticatedR
       return;
     }
 
-    // Restore entry
-    const restoredEntry = await prisma.entry.update({
-      where: { id },
-      data: { isDeleted: false }
+    // Restore entry, unless another request got there first; its stats are
+    // only added back once
+    const restoredEntry = await prisma.$transaction(async (tx) => {
+      const current = await lockEntry(tx, id);
+      if (!current?.isDeleted) return null;
+
+      const entry = await tx.entry.update({
+        where: { id },
+        data: { isDeleted: false, deletedAt: null }
+      });
+
+      await addEntryStats(tx, userId, [entry]);
+      return entry;
     });
 
+    if (!restoredEntry) {
+      res.status(404).json({ message: 'Deleted entry not found' });
+      return;
+    }
+
     res.json({
       message: 'Entry restored successfully',
       entry: restoredEntry
@@ -227,27 +465,41 @@ router.delete('/entry/:id', authenticateToken, async (req: AuthenticatedRequest,
     const { id } = req.params;
     const userId = req.user!.id;
 
-    // Check if entry exists and belongs to user
-    const existingEntry = await prisma.entry.findFirst({
-      where: {
-        id,
-        userId,
-        isDeleted: false
-      }
-    });
+    // Check if entry exists and belongs to user; collaborators can never delete
+    const access = await getEntryAccess(id, userId);
 
-    if (!existingEntry) {
+    if (!access) {
       res.status(404).json({ message: 'Entry not found' });
       return;
     }
 
-    // Soft delete entry
-    await prisma.entry.update({
-      where: { id },
-      data: { isDeleted: true }
+    if (!canManageEntry(access.permission)) {
+      res.status(403).json({ message: 'Only the owner can delete this entry' });
+      return;
+    }
+
+    // Soft delete entry. The stats removed are those of the row as it is now,
+    // and only if this request is the one that moves it to the trash.
+    const deletedAt = new Date();
+    const deleted = await prisma.$transaction(async (tx) => {
+      const current = await lockEntry(tx, id);
+      if (!current || current.isDeleted) return false;
+
+      await tx.entry.update({
+        where: { id },
+        data: { isDeleted: true, deletedAt }
+      });
+
+      await removeEntryStats(tx, userId, [current]);
+      return true;
     });
 
-    res.json({ message: 'Entry deleted successfully' });
+    if (!deleted) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    res.json({ message: 'Entry deleted successfully', purgeAt: purgeDate(deletedAt) });
   } catch (error) {
     console.error('Delete entry error:', error);
     res.status(500).json({ message: 'Failed to delete entry' });
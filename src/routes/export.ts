@@ -0,0 +1,128 @@
+import express, { Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { getEntryAccess } from '../utils/entryAccess';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportFileName,
+  entryToMarkdown,
+  entryToHtml,
+  entryToPdf,
+  buildAccountArchive
+} from '../utils/exporters';
+import { buildAccountDataExport } from '../utils/accounts';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const exportInclude = {
+  tags: { select: { tag: { select: { name: true } } } },
+  notebook: { select: { name: true } },
+  sharedEntries: {
+    select: {
+      permission: true,
+      sharedAt: true,
+      sharedWith: { select: { email: true } }
+    }
+  }
+};
+
+// Export a single entry as Markdown, HTML or PDF
+router.get('/entry/:id', authenticateToken, [
+  query('format').optional().isIn(Object.keys(EXPORT_FORMATS)).withMessage('Format must be md, html or pdf')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const format = (req.query.format as ExportFormat) || 'md';
+    const userId = req.user!.id;
+
+    const access = await getEntryAccess(id, userId);
+
+    if (!access) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    // Tags, notebook and share details belong to the owner's account
+    const entry = access.permission === 'owner'
+      ? await prisma.entry.findUnique({ where: { id }, include: exportInclude })
+      : access.entry;
+
+    if (!entry) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    let body: string | Buffer;
+    if (format === 'pdf') {
+      body = await entryToPdf(entry);
+    } else if (format === 'html') {
+      body = entryToHtml(entry);
+    } else {
+      body = entryToMarkdown(entry);
+    }
+
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(entry, extension)}"`);
+    res.send(body);
+  } catch (error) {
+    console.error('Export entry error:', error);
+    res.status(500).json({ message: 'Failed to export entry' });
+  }
+});
+
+// Export the whole account as a ZIP of Markdown files
+router.get('/account', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const entries = await prisma.entry.findMany({
+      where: { userId, isDeleted: false },
+      include: exportInclude,
+      orderBy: { dateCreated: 'asc' }
+    });
+
+    const archive = await buildAccountArchive(entries, {
+      exportedAt: new Date().toISOString(),
+      user: {
+        username: req.user!.username,
+        email: req.user!.email
+      }
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="notely-export-${date}.zip"`);
+    res.send(archive);
+  } catch (error) {
+    console.error('Export account error:', error);
+    res.status(500).json({ message: 'Failed to export account' });
+  }
+});
+
+// Download everything stored about the account as JSON (data portability)
+router.get('/data', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const data = await buildAccountDataExport(req.user!.id);
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="notely-data-${date}.json"`);
+    res.send(JSON.stringify(data, null, 2));
+  } catch (error) {
+    console.error('Export account data error:', error);
+    res.status(500).json({ message: 'Failed to export account data' });
+  }
+});
+
+export default router;
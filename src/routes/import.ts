@@ -0,0 +1,144 @@
+import express, { Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { parseUploads } from '../utils/importers';
+import { importNotes, startImportJob, IMPORT_SYNC_LIMIT } from '../utils/importJobs';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const ALLOWED_EXTENSIONS = ['.md', '.markdown', '.txt', '.zip', '.enex'];
+
+const storage = multer.memoryStorage();
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 25 * 1024 * 1024,
+    files: 20
+  },
+  fileFilter: (req, file, cb) => {
+    if (ALLOWED_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', 'Only .md, .txt, .zip and .enex files are allowed'));
+    }
+  }
+});
+
+// Import notes from Markdown/text files, ZIP archives (incl. Notion exports) and Evernote .enex
+router.post('/', authenticateToken, upload.array('files', 20), [
+  body('notebookId').optional({ values: 'falsy' }).isUUID().withMessage('Valid notebook ID is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const files = req.files as Express.Multer.File[] | undefined;
+    if (!files || files.length === 0) {
+      res.status(400).json({ message: 'No files provided' });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const { notebookId } = req.body;
+
+    if (notebookId) {
+      const notebook = await prisma.notebook.findFirst({
+        where: { id: notebookId, userId }
+      });
+
+      if (!notebook) {
+        res.status(404).json({ message: 'Notebook not found' });
+        return;
+      }
+    }
+
+    const parsed = await parseUploads(files);
+
+    if (parsed.notes.length > IMPORT_SYNC_LIMIT) {
+      const job = await startImportJob(userId, parsed, notebookId);
+
+      res.status(202).json({
+        message: 'Import started',
+        job: {
+          id: job.id,
+          status: job.status,
+          totalItems: job.totalItems
+        }
+      });
+      return;
+    }
+
+    const results = await importNotes(userId, parsed, notebookId);
+    const imported = results.filter(result => result.status === 'imported').length;
+
+    res.status(imported > 0 ? 201 : 400).json({
+      message: `Imported ${imported} of ${results.length} notes`,
+      imported,
+      failed: results.length - imported,
+      results
+    });
+  } catch (error) {
+    console.error('Import error:', error);
+    res.status(500).json({ message: 'Failed to import notes' });
+  }
+});
+
+// List recent import jobs
+router.get('/jobs', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const jobs = await prisma.importJob.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        status: true,
+        totalItems: true,
+        processedItems: true,
+        error: true,
+        createdAt: true,
+        completedAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20
+    });
+
+    res.json({ jobs });
+  } catch (error) {
+    console.error('Get import jobs error:', error);
+    res.status(500).json({ message: 'Failed to get import jobs' });
+  }
+});
+
+// Poll a specific import job
+router.get('/jobs/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const job = await prisma.importJob.findFirst({
+      where: { id, userId }
+    });
+
+    if (!job) {
+      res.status(404).json({ message: 'Import job not found' });
+      return;
+    }
+
+    res.json({ job });
+  } catch (error) {
+    console.error('Get import job error:', error);
+    res.status(500).json({ message: 'Failed to get import job' });
+  }
+});
+
+export default router;
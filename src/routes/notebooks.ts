@@ -0,0 +1,226 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { AuthenticatedRequest, CreateNotebookData, UpdateNotebookData } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Get all user notebooks (flat list, clients build the tree from parentId)
+router.get('/notebooks', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const notebooks = await prisma.notebook.findMany({
+      where: { userId },
+      include: {
+        _count: {
+          select: { entries: { where: { isDeleted: false } } }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({ notebooks });
+  } catch (error) {
+    console.error('Get notebooks error:', error);
+    res.status(500).json({ message: 'Failed to get notebooks' });
+  }
+});
+
+// Create notebook
+router.post('/notebooks', authenticateToken, [
+  body('name').trim().notEmpty().withMessage('Notebook name is required'),
+  body('parentId').optional({ values: 'null' }).isUUID().withMessage('Valid parent notebook ID is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { name, parentId }: CreateNotebookData = req.body;
+    const userId = req.user!.id;
+
+    if (parentId) {
+      const parent = await prisma.notebook.findFirst({
+        where: { id: parentId, userId }
+      });
+
+      if (!parent) {
+        res.status(404).json({ message: 'Parent notebook not found' });
+        return;
+      }
+    }
+
+    const notebook = await prisma.notebook.create({
+      data: { name, parentId: parentId || null, userId }
+    });
+
+    res.status(201).json({
+      message: 'Notebook created successfully',
+      notebook
+    });
+  } catch (error) {
+    console.error('Create notebook error:', error);
+    res.status(500).json({ message: 'Failed to create notebook' });
+  }
+});
+
+// Update notebook (rename or move)
+router.patch('/notebooks/:id', authenticateToken, [
+  body('name').optional().trim().notEmpty().withMessage('Notebook name cannot be empty'),
+  body('parentId').optional({ values: 'null' }).isUUID().withMessage('Valid parent notebook ID is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { name, parentId }: UpdateNotebookData = req.body;
+    const userId = req.user!.id;
+
+    const existingNotebook = await prisma.notebook.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existingNotebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const updateData: any = {};
+    if (name) updateData.name = name;
+
+    if (parentId !== undefined) {
+      if (parentId) {
+        // Walking up from the new parent makes sure we don't create a cycle
+        let ancestorId: string | null = parentId;
+        while (ancestorId) {
+          if (ancestorId === id) {
+            res.status(400).json({ message: 'A notebook cannot be moved inside itself' });
+            return;
+          }
+
+          const ancestor: { parentId: string | null } | null = await prisma.notebook.findFirst({
+            where: { id: ancestorId, userId },
+            select: { parentId: true }
+          });
+
+          if (!ancestor) {
+            res.status(404).json({ message: 'Parent notebook not found' });
+            return;
+          }
+          ancestorId = ancestor.parentId;
+        }
+      }
+      updateData.parentId = parentId || null;
+    }
+
+    const updatedNotebook = await prisma.notebook.update({
+      where: { id },
+      data: updateData
+    });
+
+    res.json({
+      message: 'Notebook updated successfully',
+      notebook: updatedNotebook
+    });
+  } catch (error) {
+    console.error('Update notebook error:', error);
+    res.status(500).json({ message: 'Failed to update notebook' });
+  }
+});
+
+// Delete notebook - its entries and sub-notebooks move up to the parent
+router.delete('/notebooks/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const existingNotebook = await prisma.notebook.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existingNotebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.entry.updateMany({
+        where: { notebookId: id },
+        data: { notebookId: existingNotebook.parentId }
+      }),
+      prisma.notebook.updateMany({
+        where: { parentId: id },
+        data: { parentId: existingNotebook.parentId }
+      }),
+      prisma.notebook.delete({
+        where: { id }
+      })
+    ]);
+
+    res.json({ message: 'Notebook deleted successfully' });
+  } catch (error) {
+    console.error('Delete notebook error:', error);
+    res.status(500).json({ message: 'Failed to delete notebook' });
+  }
+});
+
+// Move an entry into a notebook (null removes it from any notebook)
+router.patch('/entry/:id/notebook', authenticateToken, [
+  body('notebookId').optional({ values: 'null' }).isUUID().withMessage('Valid notebook ID is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { notebookId } = req.body;
+    const userId = req.user!.id;
+
+    const entry = await prisma.entry.findFirst({
+      where: { id, userId, isDeleted: false }
+    });
+
+    if (!entry) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    if (notebookId) {
+      const notebook = await prisma.notebook.findFirst({
+        where: { id: notebookId, userId }
+      });
+
+      if (!notebook) {
+        res.status(404).json({ message: 'Notebook not found' });
+        return;
+      }
+    }
+
+    const updatedEntry = await prisma.entry.update({
+      where: { id },
+      data: { notebookId: notebookId || null }
+    });
+
+    res.json({
+      message: 'Entry moved successfully',
+      entry: updatedEntry
+    });
+  } catch (error) {
+    console.error('Move entry error:', error);
+    res.status(500).json({ message: 'Failed to move entry' });
+  }
+});
+
+export default router;
@@ -0,0 +1,195 @@
+import express, { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { getEntryAccess, lockEntry, canEditEntry } from '../utils/entryAccess';
+import { recordRevision, ensureBaselineRevision, diffLines } from '../utils/revisions';
+import { queueEntryIndexing } from '../utils/semanticIndex';
+import { countWords, recordContentChange } from '../utils/entryStats';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+const authorSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  username: true,
+  avatar: true
+};
+
+// List revisions of an entry (newest first, without content)
+router.get('/entry/:id/revisions', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const access = await getEntryAccess(id, userId);
+
+    if (!access) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    const revisions = await prisma.entryRevision.findMany({
+      where: { entryId: id },
+      select: {
+        id: true,
+        revisionNumber: true,
+        title: true,
+        synopsis: true,
+        createdAt: true,
+        author: { select: authorSelect }
+      },
+      orderBy: { revisionNumber: 'desc' }
+    });
+
+    res.json({ revisions, permission: access.permission });
+  } catch (error) {
+    console.error('Get revisions error:', error);
+    res.status(500).json({ message: 'Failed to get revisions' });
+  }
+});
+
+// Line-level diff between two revisions
+router.get('/entry/:id/revisions/diff', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { from, to } = req.query;
+    const userId = req.user!.id;
+
+    if (!from || !to) {
+      res.status(400).json({ message: 'Both from and to revision IDs are required' });
+      return;
+    }
+
+    const access = await getEntryAccess(id, userId);
+
+    if (!access) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      prisma.entryRevision.findFirst({ where: { id: from as string, entryId: id } }),
+      prisma.entryRevision.findFirst({ where: { id: to as string, entryId: id } })
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      res.status(404).json({ message: 'Revision not found' });
+      return;
+    }
+
+    res.json({
+      from: { id: fromRevision.id, revisionNumber: fromRevision.revisionNumber, createdAt: fromRevision.createdAt },
+      to: { id: toRevision.id, revisionNumber: toRevision.revisionNumber, createdAt: toRevision.createdAt },
+      diff: {
+        title: diffLines(fromRevision.title, toRevision.title),
+        synopsis: diffLines(fromRevision.synopsis, toRevision.synopsis),
+        content: diffLines(fromRevision.content, toRevision.content)
+      }
+    });
+  } catch (error) {
+    console.error('Diff revisions error:', error);
+    res.status(500).json({ message: 'Failed to diff revisions' });
+  }
+});
+
+// Get a specific revision
+router.get('/entry/:id/revisions/:revisionId', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id, revisionId } = req.params;
+    const userId = req.user!.id;
+
+    const access = await getEntryAccess(id, userId);
+
+    if (!access) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    const revision = await prisma.entryRevision.findFirst({
+      where: { id: revisionId, entryId: id },
+      include: { author: { select: authorSelect } }
+    });
+
+    if (!revision) {
+      res.status(404).json({ message: 'Revision not found' });
+      return;
+    }
+
+    res.json({ revision });
+  } catch (error) {
+    console.error('Get revision error:', error);
+    res.status(500).json({ message: 'Failed to get revision' });
+  }
+});
+
+// Restore an old revision (recorded as a new revision)
+router.post('/entry/:id/revisions/:revisionId/restore', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id, revisionId } = req.params;
+    const userId = req.user!.id;
+
+    const access = await getEntryAccess(id, userId);
+
+    if (!access) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    if (!canEditEntry(access.permission)) {
+      res.status(403).json({ message: 'You do not have permission to edit this entry' });
+      return;
+    }
+
+    const revision = await prisma.entryRevision.findFirst({
+      where: { id: revisionId, entryId: id }
+    });
+
+    if (!revision) {
+      res.status(404).json({ message: 'Revision not found' });
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await lockEntry(tx, id);
+      if (!current || current.isDeleted) return null;
+
+      await ensureBaselineRevision(tx, current);
+
+      const entry = await tx.entry.update({
+        where: { id },
+        data: {
+          title: revision.title,
+          synopsis: revision.synopsis,
+          content: revision.content,
+          wordCount: countWords(revision.content)
+        }
+      });
+
+      const newRevision = await recordRevision(tx, entry, userId);
+      await recordContentChange(tx, entry, current);
+      return { entry, revision: newRevision };
+    });
+
+    if (!result) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    queueEntryIndexing(id);
+
+    res.json({
+      message: 'Revision restored successfully',
+      entry: result.entry,
+      revision: result.revision,
+      permission: access.permission
+    });
+  } catch (error) {
+    console.error('Restore revision error:', error);
+    res.status(500).json({ message: 'Failed to restore revision' });
+  }
+});
+
+export default router;
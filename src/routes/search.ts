@@ -0,0 +1,96 @@
+import express, { Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { authenticateToken } from '../middleware/auth';
+import { aiRateLimiter, enforceAIQuota } from '../middleware/aiLimits';
+import { buildTsQuery, searchEntries, SearchScope, SearchTrash } from '../utils/search';
+import { semanticSearch } from '../utils/semanticIndex';
+import { getEmbeddingModel } from '../utils/ai';
+import { recordAIUsage } from '../utils/aiUsage';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+// Full-text search across entries
+// ?q=<query>&scope=mine|shared|all&trash=exclude|include|only&from=&to=&page=&limit=
+router.get('/', authenticateToken, [
+  query('q').trim().notEmpty().withMessage('Search query is required'),
+  query('scope').optional().isIn(['mine', 'shared', 'all']).withMessage('Scope must be mine, shared or all'),
+  query('trash').optional().isIn(['exclude', 'include', 'only']).withMessage('Trash must be exclude, include or only'),
+  query('from').optional().isISO8601().withMessage('from must be a valid date'),
+  query('to').optional().isISO8601().withMessage('to must be a valid date'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive number'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { q, scope, trash, from, to, page, limit } = req.query as Record<string, string | undefined>;
+    const userId = req.user!.id;
+
+    const tsQuery = buildTsQuery(q!);
+    if (!tsQuery) {
+      res.status(400).json({ message: 'Search query must contain letters or numbers' });
+      return;
+    }
+
+    const currentPage = page ? parseInt(page, 10) : 1;
+    const pageSize = limit ? parseInt(limit, 10) : 20;
+
+    const { results, total } = await searchEntries({
+      userId,
+      scope: scope as SearchScope | undefined,
+      trash: trash as SearchTrash | undefined,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      page: currentPage,
+      limit: pageSize
+    }, tsQuery);
+
+    res.json({
+      results,
+      pagination: {
+        page: currentPage,
+        limit: pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+    res.status(500).json({ message: 'Search failed' });
+  }
+});
+
+// Semantic search by meaning rather than exact words, over your entries and
+// entries shared with you
+// ?q=<query>&limit=
+// Embedding the query can call a paid provider, so this counts as an AI request
+router.get('/semantic', authenticateToken, aiRateLimiter, enforceAIQuota, [
+  query('q').trim().notEmpty().withMessage('Search query is required'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { q, limit } = req.query as Record<string, string | undefined>;
+    const userId = req.user!.id;
+
+    const { matches, usage } = await semanticSearch(userId, q!, limit ? parseInt(limit, 10) : 10);
+    await recordAIUsage(userId, 'semantic-search', { provider: getEmbeddingModel().name, degraded: false, usage });
+
+    res.json({ results: matches });
+  } catch (error) {
+    console.error('Semantic search error:', error);
+    res.status(500).json({ message: 'Semantic search failed' });
+  }
+});
+
+export default router;
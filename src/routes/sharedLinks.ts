@@ -0,0 +1,81 @@
+import express, { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { openShareLink, ShareLinkError } from '../utils/shareLinks';
+import { entryToPublicHtml, sharedMessagePage } from '../utils/exporters';
+
+const router = express.Router();
+
+// Only failed opens count, so guessing passwords or tokens is slowed down
+// without limiting a link that is being viewed a lot
+const shareLinkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  skipSuccessfulRequests: true,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: 'Too many attempts, please try again later.' }
+});
+
+const wantsHtml = (req: Request): boolean => {
+  if (req.query.format === 'html') return true;
+  if (req.query.format === 'json') return false;
+  return req.accepts(['json', 'html']) === 'html';
+};
+
+// Anyone holding the token can read the entry; nothing here requires an account.
+// A password can be sent in the X-Share-Password header or, from the HTML
+// prompt, as a form field.
+const openLink = async (req: Request, res: Response): Promise<void> => {
+  const html = wantsHtml(req);
+  const password = (req.get('X-Share-Password') || req.body?.password) as string | undefined;
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('X-Robots-Tag', 'noindex, nofollow');
+
+  try {
+    const { link, entry } = await openShareLink(req.params.token, typeof password === 'string' ? password : undefined);
+
+    if (html) {
+      res.type('html').send(entryToPublicHtml(entry));
+      return;
+    }
+
+    res.json({
+      entry: {
+        title: entry.title,
+        synopsis: entry.synopsis,
+        content: entry.content,
+        dateCreated: entry.dateCreated,
+        lastUpdated: entry.lastUpdated,
+        author: {
+          firstName: entry.user.firstName,
+          lastName: entry.user.lastName
+        }
+      },
+      link: {
+        expiresAt: link.expiresAt,
+        viewsRemaining: link.maxViews === null ? null : Math.max(0, link.maxViews - link.viewCount)
+      }
+    });
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      if (html) {
+        const needsPassword = error.status === 401;
+        res.status(error.status).type('html').send(
+          sharedMessagePage(needsPassword ? 'Password required' : 'Link unavailable', error.message, needsPassword)
+        );
+        return;
+      }
+      res.status(error.status).json({ message: error.message, code: error.code });
+      return;
+    }
+
+    console.error('Open share link error:', error);
+    res.status(500).json({ message: 'Failed to open share link' });
+  }
+};
+
+router.get('/:token', shareLinkLimiter, openLink);
+router.post('/:token', shareLinkLimiter, openLink);
+
+export default router;
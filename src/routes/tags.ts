@@ -0,0 +1,272 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { normalizeTagName, applyTagsByName } from '../utils/tags';
+import { AuthenticatedRequest, CreateTagData, UpdateTagData } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Get all user tags with entry counts
+router.get('/tags', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      include: {
+        _count: {
+          select: { entries: { where: { entry: { isDeleted: false } } } }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({ tags });
+  } catch (error) {
+    console.error('Get tags error:', error);
+    res.status(500).json({ message: 'Failed to get tags' });
+  }
+});
+
+// Create tag
+router.post('/tags', authenticateToken, [
+  body('name').trim().notEmpty().withMessage('Tag name is required'),
+  body('color').optional().isHexColor().withMessage('Color must be a hex color')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { name, color }: CreateTagData = req.body;
+    const userId = req.user!.id;
+    const tagName = normalizeTagName(name);
+
+    const existingTag = await prisma.tag.findUnique({
+      where: { userId_name: { userId, name: tagName } }
+    });
+
+    if (existingTag) {
+      res.status(400).json({ message: 'Tag already exists' });
+      return;
+    }
+
+    const tag = await prisma.tag.create({
+      data: { name: tagName, color, userId }
+    });
+
+    res.status(201).json({
+      message: 'Tag created successfully',
+      tag
+    });
+  } catch (error) {
+    console.error('Create tag error:', error);
+    res.status(500).json({ message: 'Failed to create tag' });
+  }
+});
+
+// Update tag
+router.patch('/tags/:id', authenticateToken, [
+  body('name').optional().trim().notEmpty().withMessage('Tag name cannot be empty'),
+  body('color').optional({ values: 'null' }).isHexColor().withMessage('Color must be a hex color')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { name, color }: UpdateTagData = req.body;
+    const userId = req.user!.id;
+
+    const existingTag = await prisma.tag.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existingTag) {
+      res.status(404).json({ message: 'Tag not found' });
+      return;
+    }
+
+    const updateData: any = {};
+    if (name) {
+      const tagName = normalizeTagName(name);
+      const duplicate = await prisma.tag.findFirst({
+        where: { userId, name: tagName, id: { not: id } }
+      });
+
+      if (duplicate) {
+        res.status(400).json({ message: 'Tag already exists' });
+        return;
+      }
+      updateData.name = tagName;
+    }
+    if (color !== undefined) updateData.color = color;
+
+    const updatedTag = await prisma.tag.update({
+      where: { id },
+      data: updateData
+    });
+
+    res.json({
+      message: 'Tag updated successfully',
+      tag: updatedTag
+    });
+  } catch (error) {
+    console.error('Update tag error:', error);
+    res.status(500).json({ message: 'Failed to update tag' });
+  }
+});
+
+// Delete tag (removes it from all entries)
+router.delete('/tags/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const existingTag = await prisma.tag.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existingTag) {
+      res.status(404).json({ message: 'Tag not found' });
+      return;
+    }
+
+    await prisma.tag.delete({
+      where: { id }
+    });
+
+    res.json({ message: 'Tag deleted successfully' });
+  } catch (error) {
+    console.error('Delete tag error:', error);
+    res.status(500).json({ message: 'Failed to delete tag' });
+  }
+});
+
+// Replace the tags on an entry
+router.put('/entry/:id/tags', authenticateToken, [
+  body('tagIds').isArray().withMessage('tagIds must be an array'),
+  body('tagIds.*').isUUID().withMessage('Valid tag IDs are required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const tagIds: string[] = [...new Set<string>(req.body.tagIds)];
+    const userId = req.user!.id;
+
+    const entry = await prisma.entry.findFirst({
+      where: { id, userId, isDeleted: false }
+    });
+
+    if (!entry) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    const ownedTags = await prisma.tag.count({
+      where: { id: { in: tagIds }, userId }
+    });
+
+    if (ownedTags !== tagIds.length) {
+      res.status(404).json({ message: 'Tag not found' });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.entryTag.deleteMany({ where: { entryId: id } }),
+      prisma.entryTag.createMany({
+        data: tagIds.map(tagId => ({ entryId: id, tagId }))
+      })
+    ]);
+
+    const tags = await prisma.tag.findMany({
+      where: { entries: { some: { entryId: id } } },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({
+      message: 'Entry tags updated successfully',
+      tags
+    });
+  } catch (error) {
+    console.error('Set entry tags error:', error);
+    res.status(500).json({ message: 'Failed to update entry tags' });
+  }
+});
+
+// Add tags to an entry by name, e.g. the output of /api/ai/suggest-tags
+router.post('/entry/:id/tags', authenticateToken, [
+  body('names').isArray({ min: 1 }).withMessage('names must be a non-empty array'),
+  body('names.*').isString().trim().notEmpty().withMessage('Tag names cannot be empty')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { names } = req.body;
+    const userId = req.user!.id;
+
+    const entry = await prisma.entry.findFirst({
+      where: { id, userId, isDeleted: false }
+    });
+
+    if (!entry) {
+      res.status(404).json({ message: 'Entry not found' });
+      return;
+    }
+
+    const tags = await applyTagsByName(userId, id, names);
+
+    res.json({
+      message: 'Tags applied successfully',
+      tags
+    });
+  } catch (error) {
+    console.error('Apply entry tags error:', error);
+    res.status(500).json({ message: 'Failed to apply tags' });
+  }
+});
+
+// Remove a single tag from an entry
+router.delete('/entry/:id/tags/:tagId', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id, tagId } = req.params;
+    const userId = req.user!.id;
+
+    const entryTag = await prisma.entryTag.findFirst({
+      where: { entryId: id, tagId, entry: { userId } }
+    });
+
+    if (!entryTag) {
+      res.status(404).json({ message: 'Tag not found on entry' });
+      return;
+    }
+
+    await prisma.entryTag.delete({
+      where: { entryId_tagId: { entryId: id, tagId } }
+    });
+
+    res.json({ message: 'Tag removed from entry successfully' });
+  } catch (error) {
+    console.error('Remove entry tag error:', error);
+    res.status(500).json({ message: 'Failed to remove tag from entry' });
+  }
+});
+
+export default router;
@@ -0,0 +1,181 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { AuthenticatedRequest, CreateTemplateData, UpdateTemplateData } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Get all user templates (default first)
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const templates = await prisma.template.findMany({
+      where: { userId },
+      orderBy: [
+        { isDefault: 'desc' },
+        { updatedAt: 'desc' }
+      ]
+    });
+
+    res.json({ templates });
+  } catch (error) {
+    console.error('Get templates error:', error);
+    res.status(500).json({ message: 'Failed to get templates' });
+  }
+});
+
+// Create template
+router.post('/', authenticateToken, [
+  body('title').trim().notEmpty().withMessage('Title is required'),
+  body('content').trim().notEmpty().withMessage('Content is required'),
+  body('isDefault').optional().isBoolean().withMessage('isDefault must be a boolean')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { title, content, isDefault }: CreateTemplateData = req.body;
+    const userId = req.user!.id;
+
+    // Only one template per user can be the default
+    const template = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.template.updateMany({
+          where: { userId, isDefault: true },
+          data: { isDefault: false }
+        });
+      }
+
+      return tx.template.create({
+        data: {
+          title,
+          content,
+          isDefault: Boolean(isDefault),
+          userId
+        }
+      });
+    });
+
+    res.status(201).json({
+      message: 'Template created successfully',
+      template
+    });
+  } catch (error) {
+    console.error('Create template error:', error);
+    res.status(500).json({ message: 'Failed to create template' });
+  }
+});
+
+// Update template
+router.patch('/:id', authenticateToken, [
+  body('title').optional().trim().notEmpty().withMessage('Title cannot be empty'),
+  body('content').optional().trim().notEmpty().withMessage('Content cannot be empty')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { title, content }: UpdateTemplateData = req.body;
+    const userId = req.user!.id;
+
+    const existingTemplate = await prisma.template.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existingTemplate) {
+      res.status(404).json({ message: 'Template not found' });
+      return;
+    }
+
+    const updateData: any = {};
+    if (title) updateData.title = title;
+    if (content) updateData.content = content;
+
+    const updatedTemplate = await prisma.template.update({
+      where: { id },
+      data: updateData
+    });
+
+    res.json({
+      message: 'Template updated successfully',
+      template: updatedTemplate
+    });
+  } catch (error) {
+    console.error('Update template error:', error);
+    res.status(500).json({ message: 'Failed to update template' });
+  }
+});
+
+// Mark template as the user's default
+router.patch('/:id/default', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const existingTemplate = await prisma.template.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existingTemplate) {
+      res.status(404).json({ message: 'Template not found' });
+      return;
+    }
+
+    const [, defaultTemplate] = await prisma.$transaction([
+      prisma.template.updateMany({
+        where: { userId, isDefault: true, id: { not: id } },
+        data: { isDefault: false }
+      }),
+      prisma.template.update({
+        where: { id },
+        data: { isDefault: true }
+      })
+    ]);
+
+    res.json({
+      message: 'Default template updated successfully',
+      template: defaultTemplate
+    });
+  } catch (error) {
+    console.error('Set default template error:', error);
+    res.status(500).json({ message: 'Failed to set default template' });
+  }
+});
+
+// Delete template
+router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const existingTemplate = await prisma.template.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existingTemplate) {
+      res.status(404).json({ message: 'Template not found' });
+      return;
+    }
+
+    await prisma.template.delete({
+      where: { id }
+    });
+
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Delete template error:', error);
+    res.status(500).json({ message: 'Failed to delete template' });
+  }
+});
+
+export default router;
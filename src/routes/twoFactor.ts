@@ -0,0 +1,314 @@
+import express, { Response } from 'express';
+import bcrypt from 'bcryptjs';
+import QRCode from 'qrcode';
+import rateLimit from 'express-rate-limit';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken } from '../middleware/auth';
+import { generateTotpSecret, buildOtpAuthUri, verifyTotp } from '../utils/totp';
+import {
+  verifyTwoFactorChallenge,
+  claimChallengeAttempt,
+  consumeChallenge,
+  checkSecondFactor,
+  replaceRecoveryCodes
+} from '../utils/twoFactor';
+import { createSession } from '../utils/sessions';
+import { claimShareInvitations } from '../utils/shareInvitations';
+import { canReactivate, reactivateAccount } from '../utils/accounts';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Each challenge also dies after a few wrong codes; this slows down anyone
+// cycling through fresh challenges. Successful logins don't count.
+const verifyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  skipSuccessfulRequests: true,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: 'Too many attempts, please try again later.' }
+});
+
+// 2FA status
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const [user, remainingRecoveryCodes] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorEnabled: true }
+      }),
+      prisma.recoveryCode.count({
+        where: { userId, usedAt: null }
+      })
+    ]);
+
+    res.json({
+      enabled: Boolean(user?.twoFactorEnabled),
+      remainingRecoveryCodes
+    });
+  } catch (error) {
+    console.error('Get 2FA status error:', error);
+    res.status(500).json({ message: 'Failed to get two-factor status' });
+  }
+});
+
+// Start enrollment - returns the otpauth URI and a QR code to scan
+router.post('/setup', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, email: true }
+    });
+
+    if (user?.twoFactorEnabled) {
+      res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUri = buildOtpAuthUri(secret, req.user!.email);
+    const qrCode = await QRCode.toDataURL(otpauthUri);
+
+    // Stored but inactive until the user confirms a code from their app
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: secret, twoFactorLastStep: null }
+    });
+
+    res.json({ secret, otpauthUri, qrCode });
+  } catch (error) {
+    console.error('2FA setup error:', error);
+    res.status(500).json({ message: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm enrollment with a code from the authenticator app
+router.post('/confirm', authenticateToken, [
+  body('code').trim().notEmpty().withMessage('Verification code is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true }
+    });
+
+    if (!user?.twoFactorSecret || user.twoFactorEnabled) {
+      res.status(400).json({ message: 'No two-factor setup in progress' });
+      return;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, req.body.code);
+    if (step === null) {
+      res.status(400).json({ message: 'Invalid verification code' });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: true, twoFactorLastStep: step }
+    });
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+
+    res.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('2FA confirm error:', error);
+    res.status(500).json({ message: 'Failed to enable two-factor authentication' });
+  }
+});
+
+// Second login step - exchanges the challenge token for a session
+router.post('/verify', verifyLimiter, [
+  body('challengeToken').notEmpty().withMessage('Challenge token is required'),
+  body('code').optional().trim().notEmpty().withMessage('Code cannot be empty'),
+  body('recoveryCode').optional().trim().notEmpty().withMessage('Recovery code cannot be empty'),
+  body().custom((value) => {
+    if (!value.code && !value.recoveryCode) {
+      throw new Error('A verification code or recovery code is required');
+    }
+    return true;
+  })
+], async (req: express.Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const challenge = verifyTwoFactorChallenge(challengeToken);
+    if (!challenge || !(await claimChallengeAttempt(challenge))) {
+      res.status(401).json({ message: 'Invalid or expired challenge, please log in again' });
+      return;
+    }
+    const { userId } = challenge;
+
+    const isValid = await checkSecondFactor(userId, code, recoveryCode);
+    if (!isValid) {
+      res.status(401).json({ message: 'Invalid verification code' });
+      return;
+    }
+
+    if (!(await consumeChallenge(challenge))) {
+      res.status(401).json({ message: 'Invalid or expired challenge, please log in again' });
+      return;
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        username: true,
+        avatar: true,
+        dateJoined: true,
+        lastProfileUpdate: true,
+        emailVerified: true,
+        twoFactorEnabled: true,
+        isDeleted: true,
+        deactivatedAt: true
+      }
+    });
+
+    if (!account || (account.isDeleted && !canReactivate(account))) {
+      res.status(401).json({ message: 'User not found or account deactivated' });
+      return;
+    }
+
+    const { isDeleted: reactivated, deactivatedAt: _, ...user } = account;
+
+    // Logging in cancels a pending deletion
+    if (reactivated) {
+      await reactivateAccount(user.id);
+    }
+
+    const { token, refreshToken, expiresIn } = await createSession(user.id, req);
+
+    // Shares sent to this address before it had an account
+    const acceptedInvitations = user.emailVerified
+      ? await claimShareInvitations(user.id, user.email)
+      : 0;
+
+    res.json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      expiresIn,
+      user,
+      acceptedInvitations,
+      reactivated
+    });
+  } catch (error) {
+    console.error('2FA verify error:', error);
+    res.status(500).json({ message: 'Failed to verify two-factor code' });
+  }
+});
+
+// Regenerate recovery codes (invalidates the old ones)
+router.post('/recovery-codes', authenticateToken, [
+  body('password').notEmpty().withMessage('Current password is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true, twoFactorEnabled: true }
+    });
+
+    if (!user?.twoFactorEnabled) {
+      res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    const isValidPassword = await bcrypt.compare(req.body.password, user.password);
+    if (!isValidPassword) {
+      res.status(400).json({ message: 'Current password is incorrect' });
+      return;
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+
+    res.json({
+      message: 'Recovery codes regenerated',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ message: 'Failed to regenerate recovery codes' });
+  }
+});
+
+// Disable 2FA - requires the current password
+router.post('/disable', authenticateToken, [
+  body('password').notEmpty().withMessage('Current password is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true, twoFactorEnabled: true }
+    });
+
+    if (!user?.twoFactorEnabled) {
+      res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    const isValidPassword = await bcrypt.compare(req.body.password, user.password);
+    if (!isValidPassword) {
+      res.status(400).json({ message: 'Current password is incorrect' });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastStep: null }
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId } })
+    ]);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('2FA disable error:', error);
+    res.status(500).json({ message: 'Failed to disable two-factor authentication' });
+  }
+});
+
+export default router;
@@ -1,9 +1,15 @@
 import express, { Response } from 'express';
+import bcrypt from 'bcryptjs';
 import multer from 'multer';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken } from '../middleware/auth';
-import { uploadToCloudinary, deleteFromCloudinary } from '../utils/cloudinary';
+import { uploadToCloudinary, deleteFromCloudinary, avatarPublicId } from '../utils/cloudinary';
+import { startEmailVerification } from '../utils/emails';
+import { deactivateAccount, ACCOUNT_DELETION_GRACE_DAYS } from '../utils/accounts';
+import { resolvePreferences, updatePreferences, preferenceValidation } from '../utils/preferences';
+import { canonicalTimeZone } from '../utils/timezone';
+import { rebuildZonedActivity } from '../utils/entryStats';
 import { AuthenticatedRequest, UpdateUserData } from '../types';
 
 const router = express.Router();
@@ -39,7 +45,10 @@ router.get('/profile', authenticateToken, async (req: AuthenticatedRequest, res:
         username: true,
         avatar: true,
         dateJoined: true,
-        lastProfileUpdate: true
+        lastProfileUpdate: true,
+        emailVerified: true,
+        pendingEmail: true,
+        timezone: true
       }
     });
 
@@ -101,7 +110,10 @@ router.patch('/', authenticateToken, [
     if (firstName) updateData.firstName = firstName;
     if (lastName) updateData.lastName = lastName;
     if (username) updateData.username = username.toLowerCase();
-    if (email) updateData.email = email.toLowerCase();
+
+    // A new email only takes effect once it has been verified
+    const newEmail = email && email.toLowerCase() !== req.user!.email ? email.toLowerCase() : null;
+    if (newEmail) updateData.pendingEmail = newEmail;
 
     const updatedUser = await prisma.user.update({
       where: { id: userId },
@@ -114,13 +126,35 @@ router.patch('/', authenticateToken, [
         username: true,
         avatar: true,
         dateJoined: true,
-        lastProfileUpdate: true
+        lastProfileUpdate: true,
+        emailVerified: true,
+        pendingEmail: true
       }
     });
 
+    // The profile is already saved, so a failed email is reported rather than
+    // failing the request; it can be sent again with /api/auth/resend-verification
+    let verificationEmailSent = false;
+    if (newEmail) {
+      try {
+        await startEmailVerification(userId, updatedUser.firstName, newEmail);
+        verificationEmailSent = true;
+      } catch (mailError) {
+        console.warn('Failed to send verification email:', mailError);
+      }
+    }
+
+    let message = 'Profile updated successfully';
+    if (newEmail) {
+      message = verificationEmailSent
+        ? 'Profile updated successfully. Check your new email address to confirm the change'
+        : 'Profile updated successfully, but the confirmation email could not be sent. Request it again to change your email';
+    }
+
     res.json({
-      message: 'Profile updated successfully',
-      user: updatedUser
+      message,
+      user: updatedUser,
+      ...(newEmail && { verificationEmailSent })
     });
   } catch (error) {
     console.error('Update profile error:', error);
@@ -164,16 +198,18 @@ router.patch('/avatar', authenticateToken, upload.single('avatar'), async (req:
         username: true,
         avatar: true,
         dateJoined: true,
-        lastProfileUpdate: true
+        lastProfileUpdate: true,
+        emailVerified: true,
+        pendingEmail: true
       }
     });
 
     // Delete old avatar from Cloudinary if it exists
     if (currentUser?.avatar) {
       try {
-        const publicId = currentUser.avatar.split('/').pop()?.split('.')[0];
+        const publicId = avatarPublicId(currentUser.avatar);
         if (publicId) {
-          await deleteFromCloudinary(`notely/avatars/${publicId}`);
+          await deleteFromCloudinary(publicId);
         }
       } catch (deleteError) {
         console.warn('Failed to delete old avatar:', deleteError);
@@ -190,4 +226,144 @@ router.patch('/avatar', authenticateToken, upload.single('avatar'), async (req:
   }
 });
 
-export default router;
\ No newline at end of file
+// Get preferences, with defaults filled in
+router.get('/preferences', authenticateToken, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { preferences: true, timezone: true }
+    });
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    res.json({
+      preferences: resolvePreferences(user.preferences),
+      timezone: user.timezone
+    });
+  } catch (error) {
+    console.error('Get preferences error:', error);
+    res.status(500).json({ message: 'Failed to get preferences' });
+  }
+});
+
+// Update some preferences and/or the timezone; fields left out are kept
+router.patch('/preferences', authenticateToken, preferenceValidation, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const { defaultTemplateId, defaultNotebookId, timezone } = req.body;
+
+    if (defaultTemplateId) {
+      const template = await prisma.template.findFirst({
+        where: { id: defaultTemplateId, userId }
+      });
+
+      if (!template) {
+        res.status(404).json({ message: 'Template not found' });
+        return;
+      }
+    }
+
+    if (defaultNotebookId) {
+      const notebook = await prisma.notebook.findFirst({
+        where: { id: defaultNotebookId, userId }
+      });
+
+      if (!notebook) {
+        res.status(404).json({ message: 'Notebook not found' });
+        return;
+      }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true, timezone: true }
+    });
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const preferences = updatePreferences(user.preferences, req.body);
+
+    // Activity is rolled up by day and hour on the user's clock, so a new
+    // timezone is saved together with the rebuilt rollups
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id: userId },
+        data: {
+          preferences: { ...preferences },
+          ...(timezone && { timezone: canonicalTimeZone(timezone) })
+        },
+        select: { preferences: true, timezone: true }
+      });
+
+      if (updated.timezone !== user.timezone) {
+        await rebuildZonedActivity(tx, userId, updated.timezone);
+      }
+      return updated;
+    });
+
+    res.json({
+      message: 'Preferences updated successfully',
+      preferences: resolvePreferences(updatedUser.preferences),
+      timezone: updatedUser.timezone
+    });
+  } catch (error) {
+    console.error('Update preferences error:', error);
+    res.status(500).json({ message: 'Failed to update preferences' });
+  }
+});
+
+// Deactivate the account. Logging in again within the grace period
+// reactivates it; after that the account and its data are deleted.
+router.post('/deactivate', authenticateToken, [
+  body('password').notEmpty().withMessage('Current password is required')
+], async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true }
+    });
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const isValidPassword = await bcrypt.compare(req.body.password, user.password);
+    if (!isValidPassword) {
+      res.status(400).json({ message: 'Password is incorrect' });
+      return;
+    }
+
+    const deletionScheduledFor = await deactivateAccount(userId);
+
+    res.json({
+      message: `Account deactivated. Log in within ${ACCOUNT_DELETION_GRACE_DAYS} days to reactivate it.`,
+      deletionScheduledFor
+    });
+  } catch (error) {
+    console.error('Deactivate account error:', error);
+    res.status(500).json({ message: 'Failed to deactivate account' });
+  }
+});
+
+export default router;
@@ -22,8 +22,11 @@ export interface Entry {
   dateCreated: Date;
   lastUpdated: Date;
   userId: string;
+  notebookId?: string | null;
 }
 
+export type EntryPermission = 'owner' | 'edit' | 'read';
+
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
@@ -34,6 +37,7 @@ export interface AuthenticatedRequest extends Request {
     avatar?: string | null;
     dateJoined: Date;
   };
+  sessionId?: string;
 }
 
 export interface RegisterData {
@@ -58,7 +62,8 @@ export interface UpdatePasswordData {
 export interface CreateEntryData {
   title: string;
   synopsis: string;
-  content: string;
+  content?: string;
+  templateId?: string;
 }
 
 export interface UpdateEntryData {
@@ -67,6 +72,37 @@ export interface UpdateEntryData {
   content?: string;
 }
 
+export interface CreateTemplateData {
+  title: string;
+  content: string;
+  isDefault?: boolean;
+}
+
+export interface UpdateTemplateData {
+  title?: string;
+  content?: string;
+}
+
+export interface CreateTagData {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateTagData {
+  name?: string;
+  color?: string | null;
+}
+
+export interface CreateNotebookData {
+  name: string;
+  parentId?: string | null;
+}
+
+export interface UpdateNotebookData {
+  name?: string;
+  parentId?: string | null;
+}
+
 export interface UpdateUserData {
   firstName?: string;
   lastName?: string;
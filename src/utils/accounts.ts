@@ -0,0 +1,247 @@
+import { PrismaClient } from '@prisma/client';
+import { revokeUserSessions } from './sessions';
+import { deleteFromCloudinary, avatarPublicId } from './cloudinary';
+import { toShareLinkSummary } from './shareLinks';
+import { toInvitationSummary } from './shareInvitations';
+
+const prisma = new PrismaClient();
+
+export const ACCOUNT_DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10);
+const ACCOUNT_PURGE_INTERVAL_MS = parseInt(process.env.ACCOUNT_PURGE_INTERVAL_MS || String(60 * 60 * 1000), 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+// When a deactivated account will be deleted for good
+export function deletionDate(deactivatedAt: Date): Date {
+  return new Date(deactivatedAt.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+}
+
+// A deactivated account can come back by logging in until the grace period ends
+export function canReactivate(user: { isDeleted: boolean; deactivatedAt: Date | null }): boolean {
+  return user.isDeleted && user.deactivatedAt !== null && deletionDate(user.deactivatedAt) > new Date();
+}
+
+// Hiding the account and signing out everywhere; nothing is deleted yet
+export const deactivateAccount = async (userId: string): Promise<Date> => {
+  const deactivatedAt = new Date();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { isDeleted: true, deactivatedAt }
+  });
+  await revokeUserSessions(userId);
+
+  return deletionDate(deactivatedAt);
+};
+
+export const reactivateAccount = async (userId: string): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { isDeleted: false, deactivatedAt: null }
+  });
+};
+
+// Removing the user and everything they own. Shares either way are removed
+// first since they don't cascade; the rest follows the user row.
+export const deleteAccount = async (userId: string): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { avatar: true }
+  });
+
+  if (!user) return;
+
+  await prisma.$transaction([
+    prisma.sharedEntry.deleteMany({
+      where: { OR: [{ sharedById: userId }, { sharedWithId: userId }] }
+    }),
+    prisma.user.delete({ where: { id: userId } })
+  ]);
+
+  // The account is already gone, so a leftover image is only logged
+  if (user.avatar) {
+    const publicId = avatarPublicId(user.avatar);
+    if (publicId) {
+      try {
+        await deleteFromCloudinary(publicId);
+      } catch (deleteError) {
+        console.warn('Failed to delete avatar for deleted account:', deleteError);
+      }
+    }
+  }
+};
+
+// Deleting every account whose grace period has run out
+export const purgeDeactivatedAccounts = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+
+  const users = await prisma.user.findMany({
+    where: { isDeleted: true, deactivatedAt: { lt: cutoff } },
+    select: { id: true }
+  });
+
+  let deleted = 0;
+  for (const user of users) {
+    try {
+      await deleteAccount(user.id);
+      deleted++;
+    } catch (error) {
+      console.error(`Failed to delete account ${user.id}:`, error);
+    }
+  }
+
+  return deleted;
+};
+
+export const startAccountPurgeSchedule = (): NodeJS.Timeout => {
+  const run = () => {
+    purgeDeactivatedAccounts()
+      .then(count => {
+        if (count > 0) console.log(`Deleted ${count} deactivated accounts`);
+      })
+      .catch(error => console.error('Account purge error:', error));
+  };
+
+  run();
+  const timer = setInterval(run, ACCOUNT_PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
+
+// Everything stored about the user, as one JSON document. Password hashes,
+// 2FA secrets and token hashes are left out.
+export const buildAccountDataExport = async (userId: string) => {
+  const [
+    profile,
+    entries,
+    notebooks,
+    tags,
+    templates,
+    sharedByMe,
+    sharedWithMe,
+    shareLinks,
+    invitations,
+    chatThreads,
+    sessions
+  ] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        username: true,
+        avatar: true,
+        dateJoined: true,
+        lastProfileUpdate: true,
+        preferences: true,
+        timezone: true,
+        emailVerified: true,
+        pendingEmail: true,
+        twoFactorEnabled: true
+      }
+    }),
+    prisma.entry.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        title: true,
+        synopsis: true,
+        content: true,
+        isDeleted: true,
+        deletedAt: true,
+        dateCreated: true,
+        lastUpdated: true,
+        notebookId: true,
+        tags: { select: { tag: { select: { name: true } } } },
+        revisions: {
+          select: {
+            revisionNumber: true,
+            title: true,
+            synopsis: true,
+            content: true,
+            createdAt: true,
+            authorId: true
+          },
+          orderBy: { revisionNumber: 'asc' }
+        }
+      },
+      orderBy: { dateCreated: 'asc' }
+    }),
+    prisma.notebook.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.tag.findMany({ where: { userId }, orderBy: { name: 'asc' } }),
+    prisma.template.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.sharedEntry.findMany({
+      where: { sharedById: userId },
+      select: {
+        entryId: true,
+        permission: true,
+        sharedAt: true,
+        sharedWith: { select: { email: true } }
+      }
+    }),
+    prisma.sharedEntry.findMany({
+      where: { sharedWithId: userId },
+      select: {
+        entryId: true,
+        permission: true,
+        sharedAt: true,
+        entry: { select: { title: true } },
+        sharedBy: { select: { email: true } }
+      }
+    }),
+    prisma.shareLink.findMany({ where: { createdById: userId } }),
+    prisma.shareInvitation.findMany({ where: { invitedById: userId } }),
+    prisma.chatThread.findMany({
+      where: { userId },
+      include: {
+        messages: {
+          select: { role: true, content: true, citations: true, createdAt: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.session.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    entries: entries.map(({ tags, ...entry }) => ({
+      ...entry,
+      tags: tags.map(({ tag }) => tag.name)
+    })),
+    notebooks,
+    tags,
+    templates,
+    shares: {
+      sharedByMe: sharedByMe.map(({ sharedWith, ...share }) => ({ ...share, sharedWithEmail: sharedWith.email })),
+      sharedWithMe: sharedWithMe.map(({ entry, sharedBy, ...share }) => ({
+        ...share,
+        entryTitle: entry.title,
+        sharedByEmail: sharedBy.email
+      })),
+      links: shareLinks.map(toShareLinkSummary),
+      invitations: invitations.map(toInvitationSummary)
+    },
+    chatThreads,
+    sessions
+  };
+};
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { postJson } from './http';
+import { AIProviderError, AITokenUsage } from './types';
+
+const AI_TIMEOUT_MS = parseInt(process.env.AI_TIMEOUT_MS || '20000', 10);
+const LOCAL_DIMENSIONS = 384;
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  // Embeddings only have input tokens, so completionTokens is always 0
+  usage: AITokenUsage;
+}
+
+export interface EmbeddingModel {
+  // Stored with every vector; vectors from different models are never compared
+  readonly name: string;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Feature hashing of words, word stems and character trigrams. Deterministic
+// and dependency-free, so it works offline and gives stable results in tests,
+// but it only captures lexical overlap, not meaning.
+export class LocalEmbeddingModel implements EmbeddingModel {
+  readonly name = `local-hash-${LOCAL_DIMENSIONS}`;
+
+  private features(text: string): string[] {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 1);
+    const features: string[] = [];
+
+    words.forEach(word => {
+      features.push(`w:${word}`);
+      if (word.length > 5) features.push(`s:${word.slice(0, 5)}`);
+      const padded = `_${word}_`;
+      for (let i = 0; i < padded.length - 2; i++) {
+        features.push(`t:${padded.slice(i, i + 3)}`);
+      }
+    });
+
+    return features;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    const vectors = texts.map(text => {
+      const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+
+      this.features(text).forEach(feature => {
+        const hash = crypto.createHash('md5').update(feature).digest();
+        const index = hash.readUInt32BE(0) % LOCAL_DIMENSIONS;
+        const sign = hash[4] & 1 ? 1 : -1;
+        // Whole words count more than their fragments
+        vector[index] += sign * (feature.startsWith('w:') ? 2 : 1);
+      });
+
+      return normalize(vector);
+    });
+
+    return { vectors, usage: { promptTokens: 0, completionTokens: 0 } };
+  }
+}
+
+interface EmbeddingResponse {
+  data?: Array<{ index: number; embedding: number[] }>;
+  usage?: { prompt_tokens?: number };
+}
+
+// Any OpenAI-compatible /embeddings endpoint, including Ollama
+export class OpenAIEmbeddingModel implements EmbeddingModel {
+  readonly name: string;
+
+  constructor(
+    private baseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    private model: string = process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    private apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {
+    this.name = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), AI_TIMEOUT_MS);
+
+    try {
+      const result = await postJson<EmbeddingResponse>(
+        `${this.baseUrl.replace(/\/+$/, '')}/embeddings`,
+        { model: this.model, input: texts },
+        this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        controller.signal
+      );
+
+      const vectors = (result.data || []).sort((a, b) => a.index - b.index).map(item => item.embedding);
+      if (vectors.length !== texts.length) {
+        throw new AIProviderError('Provider returned the wrong number of embeddings', true);
+      }
+
+      return { vectors, usage: { promptTokens: result.usage?.prompt_tokens ?? 0, completionTokens: 0 } };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+let embeddingModel: EmbeddingModel | null = null;
+
+// EMBEDDING_PROVIDER=openai|local; defaults to OpenAI when it is configured
+export const getEmbeddingModel = (): EmbeddingModel => {
+  if (!embeddingModel) {
+    const configured = (process.env.EMBEDDING_PROVIDER || '').toLowerCase();
+    const useOpenAI = configured === 'openai' ||
+      (configured === '' && Boolean(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL));
+
+    embeddingModel = useOpenAI ? new OpenAIEmbeddingModel() : new LocalEmbeddingModel();
+  }
+  return embeddingModel;
+};
+
+export const setEmbeddingModel = (next: EmbeddingModel | null): void => {
+  embeddingModel = next;
+};
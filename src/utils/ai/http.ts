@@ -0,0 +1,88 @@
+import { AIProviderError } from './types';
+
+// Rate limits, timeouts and server errors are worth another attempt; bad
+// credentials or a malformed request are not
+const RETRYABLE_STATUSES = [408, 409, 425, 429, 500, 502, 503, 504];
+
+export async function postJson<T>(url: string, payload: unknown, headers: Record<string, string>, signal: AbortSignal): Promise<T> {
+  let response: globalThis.Response;
+
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+      signal
+    });
+  } catch (error: any) {
+    if (signal.aborted) {
+      throw new AIProviderError('Request timed out', true);
+    }
+    throw new AIProviderError(`Request failed: ${error.message}`, true);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new AIProviderError(
+      `Provider responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      RETRYABLE_STATUSES.includes(response.status),
+      response.status
+    );
+  }
+
+  return await response.json() as T;
+}
+
+// POSTing to an endpoint that answers with Server-Sent Events and yielding each data payload
+export async function* postEventStream(url: string, payload: unknown, headers: Record<string, string>, signal: AbortSignal): AsyncGenerator<string> {
+  let response: globalThis.Response;
+
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', ...headers },
+      body: JSON.stringify(payload),
+      signal
+    });
+  } catch (error: any) {
+    if (signal.aborted) {
+      throw new AIProviderError('Request timed out', true);
+    }
+    throw new AIProviderError(`Request failed: ${error.message}`, true);
+  }
+
+  if (!response.ok || !response.body) {
+    const detail = await response.text().catch(() => '');
+    throw new AIProviderError(
+      `Provider responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      RETRYABLE_STATUSES.includes(response.status),
+      response.status
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+  } catch (error: any) {
+    if (error instanceof AIProviderError) throw error;
+    throw new AIProviderError(signal.aborted ? 'Request timed out' : `Stream failed: ${error.message}`, false);
+  } finally {
+    reader.releaseLock();
+  }
+}
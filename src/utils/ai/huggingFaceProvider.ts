@@ -0,0 +1,52 @@
+import { AIProvider, AIRequest, AIProviderError } from './types';
+import { postJson } from './http';
+
+type HuggingFaceResponse = Array<{
+  summary_text?: string;
+  generated_text?: string;
+}>;
+
+const INFERENCE_URL = 'https://api-inference.huggingface.co/models';
+
+// The Hugging Face inference API. The summarization model (bart-large-cnn by
+// default) can only summarize; other tasks need HUGGINGFACE_TEXT_MODEL set to
+// an instruction-tuned text generation model.
+export class HuggingFaceProvider implements AIProvider {
+  readonly name = 'huggingface';
+
+  constructor(
+    private apiKey: string | undefined = process.env.HUGGINGFACE_API_KEY,
+    private summarizationModel: string = process.env.HUGGINGFACE_MODEL || 'facebook/bart-large-cnn',
+    private textModel: string | undefined = process.env.HUGGINGFACE_TEXT_MODEL
+  ) {}
+
+  supports(request: AIRequest): boolean {
+    return (request.task === 'enhance-text' && request.type === 'summarize') || Boolean(this.textModel);
+  }
+
+  async complete(request: AIRequest, signal: AbortSignal): Promise<string> {
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    let result: HuggingFaceResponse;
+
+    if (request.task === 'enhance-text' && request.type === 'summarize') {
+      result = await postJson<HuggingFaceResponse>(`${INFERENCE_URL}/${this.summarizationModel}`, {
+        inputs: request.text,
+        parameters: { max_length: request.maxTokens, min_length: 30, do_sample: false },
+        options: { wait_for_model: true }
+      }, headers, signal);
+    } else {
+      result = await postJson<HuggingFaceResponse>(`${INFERENCE_URL}/${this.textModel}`, {
+        inputs: `${request.system}\n\n${request.prompt}`,
+        parameters: { max_new_tokens: request.maxTokens, return_full_text: false },
+        options: { wait_for_model: true }
+      }, headers, signal);
+    }
+
+    const text = (result[0]?.summary_text || result[0]?.generated_text)?.trim();
+    if (!text) {
+      throw new AIProviderError('Provider returned an empty completion', true);
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,244 @@
+import {
+  AIProvider,
+  AIProviderError,
+  AIRequest,
+  AIResult,
+  AITaskParams,
+  NoteType,
+  NoteLength,
+  EnhancementType,
+  ChatPassage,
+  ChatTurn
+} from './types';
+import { buildAIRequest, createNoteContentFilter, parseCitations, parseGeneratedNote, parseLines, parseTags } from './prompts';
+import { OpenAIProvider } from './openaiProvider';
+import { HuggingFaceProvider } from './huggingFaceProvider';
+import { TemplateProvider } from './templateProvider';
+import { MockProvider } from './mockProvider';
+
+export * from './types';
+export * from './embeddings';
+
+const AI_TIMEOUT_MS = parseInt(process.env.AI_TIMEOUT_MS || '20000', 10);
+const AI_MAX_RETRIES = parseInt(process.env.AI_MAX_RETRIES || '2', 10);
+const RETRY_BASE_DELAY_MS = 500;
+
+const templateProvider = new TemplateProvider();
+let provider: AIProvider | null = null;
+
+// AI_PROVIDER picks the adapter explicitly; otherwise the first one with
+// credentials configured wins and the template provider is the last resort
+function createProvider(): AIProvider {
+  const configured = (process.env.AI_PROVIDER || '').toLowerCase();
+
+  switch (configured) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'huggingface':
+      return new HuggingFaceProvider();
+    case 'template':
+      return templateProvider;
+    case 'mock':
+      return new MockProvider();
+    case '':
+      break;
+    default:
+      console.warn(`Unknown AI_PROVIDER "${configured}", falling back to auto-detection`);
+  }
+
+  if (process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL) return new OpenAIProvider();
+  if (process.env.HUGGINGFACE_API_KEY) return new HuggingFaceProvider();
+  return templateProvider;
+}
+
+export const getAIProvider = (): AIProvider => {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+};
+
+// Swapping the provider at runtime (tests, scripts)
+export const setAIProvider = (next: AIProvider | null): void => {
+  provider = next;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function completeWithRetries(active: AIProvider, request: AIRequest): Promise<string> {
+  let attempt = 0;
+
+  while (true) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), AI_TIMEOUT_MS);
+
+    try {
+      return await active.complete(request, controller.signal);
+    } catch (error: any) {
+      const retryable = error instanceof AIProviderError ? error.retryable : false;
+      if (!retryable || attempt >= AI_MAX_RETRIES) {
+        throw error;
+      }
+
+      attempt++;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Rough token count (about four characters per token). Used for metering so
+// every provider, streaming or not, is counted the same way.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Templates never reach a model, so their answers cost no tokens
+function toResult(request: AIRequest, result: string, answeredBy: AIProvider, degraded: boolean): AIResult<string> {
+  const billable = answeredBy !== templateProvider;
+
+  return {
+    result,
+    provider: answeredBy.name,
+    degraded,
+    usage: {
+      promptTokens: billable ? estimateTokens(request.system + request.prompt) : 0,
+      completionTokens: billable ? estimateTokens(result) : 0
+    }
+  };
+}
+
+// Running a task on the configured provider, falling back to the templates
+// (and flagging the result as degraded) when it fails or can't handle the task
+export const runAITask = async (params: AITaskParams): Promise<AIResult<string>> => {
+  const request = buildAIRequest(params);
+  const active = getAIProvider();
+
+  if (active !== templateProvider) {
+    if (active.supports(request)) {
+      try {
+        const result = await completeWithRetries(active, request);
+        return toResult(request, result, active, false);
+      } catch (error: any) {
+        console.warn(`AI provider "${active.name}" failed for ${request.task}, using templates:`, error.message);
+      }
+    }
+
+    const result = await templateProvider.complete(request);
+    return toResult(request, result, templateProvider, true);
+  }
+
+  // Templates are the configured provider; nothing has been degraded
+  const result = await templateProvider.complete(request);
+  return toResult(request, result, templateProvider, false);
+};
+
+// Streaming variant of runAITask. onToken receives text as it is produced;
+// the timeout applies to the gap between chunks rather than the whole answer.
+// Retries and the template fallback are only possible before the first chunk
+// has been sent, after that a failure is thrown to the caller.
+export const streamAITask = async (
+  params: AITaskParams,
+  onToken: (token: string) => void,
+  signal: AbortSignal
+): Promise<AIResult<string>> => {
+  const request = buildAIRequest(params);
+  const active = getAIProvider();
+  const isFallback = active === templateProvider;
+
+  if (active.supports(request)) {
+    let attempt = 0;
+
+    while (true) {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      signal.addEventListener('abort', abort);
+      let timer = setTimeout(abort, AI_TIMEOUT_MS);
+      let text = '';
+
+      try {
+        if (active.stream) {
+          for await (const token of active.stream(request, controller.signal)) {
+            clearTimeout(timer);
+            timer = setTimeout(abort, AI_TIMEOUT_MS);
+            text += token;
+            onToken(token);
+          }
+        } else {
+          text = await active.complete(request, controller.signal);
+          onToken(text);
+        }
+
+        return toResult(request, text, active, false);
+      } catch (error: any) {
+        const retryable = error instanceof AIProviderError ? error.retryable : false;
+
+        if (signal.aborted || text.length > 0 || isFallback) {
+          throw error;
+        }
+
+        if (!retryable || attempt >= AI_MAX_RETRIES) {
+          console.warn(`AI provider "${active.name}" failed for ${request.task}, using templates:`, error.message);
+          break;
+        }
+
+        attempt++;
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      } finally {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', abort);
+      }
+    }
+  }
+
+  const result = await templateProvider.complete(request);
+  onToken(result);
+  return toResult(request, result, templateProvider, true);
+};
+
+export const generateNote = async (topic: string, type: NoteType, length: NoteLength) => {
+  const { result, ...meta } = await runAITask({ task: 'generate-note', topic, type, length });
+  return { result: parseGeneratedNote(result, topic), ...meta };
+};
+
+export const enhanceText = async (text: string, type: EnhancementType) => {
+  return runAITask({ task: 'enhance-text', text, type });
+};
+
+export const streamGenerateNote = async (
+  topic: string,
+  type: NoteType,
+  length: NoteLength,
+  onContent: (text: string) => void,
+  signal: AbortSignal
+) => {
+  const filter = createNoteContentFilter(topic, onContent);
+  const { result, ...meta } = await streamAITask({ task: 'generate-note', topic, type, length }, token => filter.push(token), signal);
+  filter.finish();
+  return { result: parseGeneratedNote(result, topic), ...meta };
+};
+
+export const streamEnhanceText = async (
+  text: string,
+  type: EnhancementType,
+  onToken: (token: string) => void,
+  signal: AbortSignal
+) => {
+  return streamAITask({ task: 'enhance-text', text, type }, onToken, signal);
+};
+
+export const generateContentSuggestions = async (topic: string) => {
+  const { result, ...meta } = await runAITask({ task: 'content-suggestions', topic });
+  return { result: parseLines(result).slice(0, 10), ...meta };
+};
+
+export const suggestTags = async (content: string) => {
+  const { result, ...meta } = await runAITask({ task: 'suggest-tags', content });
+  return { result: Array.from(new Set(parseTags(result))).slice(0, 8), ...meta };
+};
+
+// Answering from retrieved passages; `cited` holds the passage numbers
+// (1-based) the answer refers to
+export const answerQuestion = async (question: string, passages: ChatPassage[], history: ChatTurn[]) => {
+  const { result, ...meta } = await runAITask({ task: 'answer-question', question, passages, history });
+  return { result: { answer: result, cited: parseCitations(result, passages.length) }, ...meta };
+};
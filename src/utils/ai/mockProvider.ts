@@ -0,0 +1,34 @@
+import { AIProvider, AIRequest, AIProviderError } from './types';
+import { TemplateProvider } from './templateProvider';
+
+const templates = new TemplateProvider();
+
+// Streams the template output a few words at a time, so streaming clients
+// can be exercised offline and in tests (AI_PROVIDER=mock)
+export class MockProvider implements AIProvider {
+  readonly name = 'mock';
+
+  constructor(private chunkDelayMs: number = parseInt(process.env.AI_MOCK_DELAY_MS || '30', 10)) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  async complete(request: AIRequest): Promise<string> {
+    return templates.complete(request);
+  }
+
+  async *stream(request: AIRequest, signal: AbortSignal): AsyncGenerator<string> {
+    const text = await templates.complete(request);
+    const chunks = text.match(/\S+\s*|\s+/g) || [];
+
+    for (let i = 0; i < chunks.length; i += 3) {
+      if (signal.aborted) {
+        throw new AIProviderError('Request aborted', false);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      yield chunks.slice(i, i + 3).join('');
+    }
+  }
+}
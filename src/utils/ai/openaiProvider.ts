@@ -0,0 +1,73 @@
+import { AIProvider, AIRequest, AIProviderError } from './types';
+import { postJson, postEventStream } from './http';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+// Any OpenAI-compatible chat completions endpoint: OpenAI itself, or a local
+// Ollama (http://localhost:11434/v1) or llama.cpp server via OPENAI_BASE_URL
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private baseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    private model: string = process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    private apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  private get url(): string {
+    return `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private get headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  private body(request: AIRequest) {
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.task === 'enhance-text' ? 0.2 : 0.7
+    };
+  }
+
+  async complete(request: AIRequest, signal: AbortSignal): Promise<string> {
+    const result = await postJson<ChatCompletionResponse>(this.url, this.body(request), this.headers, signal);
+
+    const text = result.choices?.[0]?.message?.content?.trim();
+    if (!text) {
+      throw new AIProviderError('Provider returned an empty completion', true);
+    }
+
+    return text;
+  }
+
+  async *stream(request: AIRequest, signal: AbortSignal): AsyncGenerator<string> {
+    for await (const data of postEventStream(this.url, { ...this.body(request), stream: true }, this.headers, signal)) {
+      if (data === '[DONE]') return;
+
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) yield token;
+    }
+  }
+}
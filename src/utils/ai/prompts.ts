@@ -0,0 +1,148 @@
+import { AITaskParams, AIRequest } from './types';
+
+const LENGTH_WORDS = {
+  short: 150,
+  medium: 400,
+  long: 800
+};
+
+const NOTE_STYLES = {
+  informative: 'an informative, well-structured overview',
+  creative: 'a creative, imaginative exploration',
+  technical: 'a technical guide with concrete implementation details',
+  personal: 'a personal, reflective journal entry'
+};
+
+// Generated notes come back in this shape so every provider can be parsed the same way
+export const NOTE_FORMAT = 'Reply in exactly this format:\nTITLE: <title>\nSYNOPSIS: <one sentence summary>\n---\n<markdown content>';
+
+export function buildAIRequest(params: AITaskParams): AIRequest {
+  switch (params.task) {
+    case 'generate-note':
+      return {
+        ...params,
+        system: 'You write clear, useful notes in Markdown for a note-taking app.',
+        prompt: `Write ${NOTE_STYLES[params.type]} about "${params.topic}" of roughly ${LENGTH_WORDS[params.length]} words.\n\n${NOTE_FORMAT}`,
+        maxTokens: Math.round(LENGTH_WORDS[params.length] * 2)
+      };
+    case 'enhance-text': {
+      const instructions = {
+        grammar: 'Correct the grammar, spelling and punctuation of the text below. Keep its meaning, tone and formatting. Reply with the corrected text only.',
+        summarize: 'Summarize the text below in a few sentences. Reply with the summary only.',
+        expand: 'Expand the text below with more detail, examples and context while keeping its voice. Reply with the expanded text only.'
+      };
+      return {
+        ...params,
+        system: 'You are a careful writing assistant.',
+        prompt: `${instructions[params.type]}\n\n${params.text}`,
+        maxTokens: params.type === 'summarize' ? 200 : Math.min(2000, Math.round(params.text.length / 2) + 400)
+      };
+    }
+    case 'content-suggestions':
+      return {
+        ...params,
+        system: 'You help people decide what to write about.',
+        prompt: `Suggest 8 specific note titles someone could write about "${params.topic}". Reply with one title per line and nothing else.`,
+        maxTokens: 300
+      };
+    case 'suggest-tags':
+      return {
+        ...params,
+        system: 'You organize notes with short, lowercase tags.',
+        prompt: `Suggest up to 8 short lowercase tags for the note below. Reply with the tags separated by commas and nothing else.\n\n${params.content.slice(0, 4000)}`,
+        maxTokens: 60
+      };
+    case 'answer-question': {
+      const sources = params.passages
+        .map((passage, index) => `[${index + 1}] ${passage.title}\n${passage.text}`)
+        .join('\n\n');
+      const history = params.history
+        .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+        .join('\n');
+
+      return {
+        ...params,
+        system: 'You answer questions using only the user\'s own notes. Cite the notes you use with their number in square brackets, like [1]. If the notes do not contain the answer, say so instead of guessing.',
+        prompt: `Notes:\n${sources || '(no matching notes)'}\n\n${history ? `Conversation so far:\n${history}\n\n` : ''}Question: ${params.question}`,
+        maxTokens: 600
+      };
+    }
+  }
+}
+
+export function parseGeneratedNote(text: string, topic: string): { title: string; synopsis: string; content: string } {
+  const title = text.match(/^\s*TITLE:\s*(.+)$/m)?.[1]?.trim();
+  const synopsis = text.match(/^\s*SYNOPSIS:\s*(.+)$/m)?.[1]?.trim();
+  const separator = text.match(/^---\s*$/m);
+  const content = (separator ? text.slice(separator.index! + separator[0].length) : text.replace(/^\s*(TITLE|SYNOPSIS):.*$/gm, '')).trim();
+
+  return {
+    title: title || content.match(/^#\s+(.+)$/m)?.[1]?.trim() || topic,
+    synopsis: synopsis || `Notes about ${topic}.`,
+    content: content || `# ${topic}`
+  };
+}
+
+// Source numbers cited as [1] or [1, 3] that refer to one of the passages
+export function parseCitations(text: string, passageCount: number): number[] {
+  const cited = new Set<number>();
+  const pattern = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    match[1].split(',').map(value => parseInt(value, 10)).forEach(index => {
+      if (index >= 1 && index <= passageCount) cited.add(index);
+    });
+  }
+
+  return Array.from(cited).sort((a, b) => a - b);
+}
+
+export function parseLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^"|"$/g, '').trim())
+    .filter(line => line.length > 0);
+}
+
+export function parseTags(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map(tag => tag.replace(/^\s*(?:[-*•#]|\d+[.)])\s*/, '').trim().toLowerCase())
+    .filter(tag => tag.length > 0 && tag.length <= 40);
+}
+
+// Generated notes stream their TITLE/SYNOPSIS header first; this holds the
+// header back so only the note content reaches the client as it arrives
+export function createNoteContentFilter(topic: string, onContent: (text: string) => void) {
+  let buffer = '';
+  let passthrough = false;
+
+  return {
+    push(token: string): void {
+      if (passthrough) {
+        onContent(token);
+        return;
+      }
+
+      buffer += token;
+      const separator = buffer.match(/^---[ \t]*\r?\n/m);
+      const trimmed = buffer.trimStart();
+
+      if (separator) {
+        passthrough = true;
+        const rest = buffer.slice(separator.index! + separator[0].length);
+        if (rest) onContent(rest);
+      } else if ((trimmed.length >= 6 && !trimmed.startsWith('TITLE:')) || buffer.length > 1000) {
+        // The model ignored the format, so everything is content
+        passthrough = true;
+        onContent(buffer);
+      }
+    },
+    finish(): void {
+      if (!passthrough && buffer) {
+        onContent(parseGeneratedNote(buffer, topic).content);
+      }
+    }
+  };
+}
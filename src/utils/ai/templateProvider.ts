@@ -0,0 +1,290 @@
+import { AIProvider, AIRequest, NoteLength, NoteType, EnhancementType, ChatPassage } from './types';
+
+// Canned, offline responses. Used when no model is configured and as the
+// fallback whenever the configured provider fails.
+export class TemplateProvider implements AIProvider {
+  readonly name = 'template';
+
+  supports(): boolean {
+    return true;
+  }
+
+  async complete(request: AIRequest): Promise<string> {
+    switch (request.task) {
+      case 'generate-note': {
+        const note = generateNoteContent(request.topic, request.type, request.length);
+        return `TITLE: ${note.title}\nSYNOPSIS: ${note.synopsis}\n---\n${note.content}`;
+      }
+      case 'enhance-text':
+        return enhanceTextFallback(request.text, request.type);
+      case 'content-suggestions':
+        return generateContentSuggestions(request.topic).join('\n');
+      case 'suggest-tags':
+        return generateTagSuggestions(extractKeywords(request.content)).join(', ');
+      case 'answer-question':
+        return quotePassages(request.passages);
+    }
+  }
+}
+
+function generateNoteContent(topic: string, type: NoteType, length: NoteLength) {
+  const templates = {
+    informative: {
+      title: `Understanding ${topic}`,
+      synopsis: `A comprehensive overview of ${topic} covering key concepts and important details.`,
+      content: generateInformativeContent(topic, length)
+    },
+    creative: {
+      title: `Creative Exploration: ${topic}`,
+      synopsis: `A creative take on ${topic} with imaginative insights and unique perspectives.`,
+      content: generateCreativeContent(topic, length)
+    },
+    technical: {
+      title: `Technical Guide: ${topic}`,
+      synopsis: `Technical documentation and implementation details for ${topic}.`,
+      content: generateTechnicalContent(topic, length)
+    },
+    personal: {
+      title: `My Thoughts on ${topic}`,
+      synopsis: `Personal reflections and insights about ${topic}.`,
+      content: generatePersonalContent(topic, length)
+    }
+  };
+
+  return templates[type] || templates.informative;
+}
+
+function generateInformativeContent(topic: string, length: NoteLength): string {
+  const baseContent = `# ${topic}
+
+## Overview
+${topic} is an important subject that deserves careful consideration and understanding.
+
+## Key Points
+- **Definition**: Understanding what ${topic} means and its significance
+- **Applications**: How ${topic} is used in real-world scenarios
+- **Benefits**: The advantages and positive impacts of ${topic}
+- **Considerations**: Important factors to keep in mind
+
+## Detailed Analysis
+When examining ${topic}, it's essential to consider multiple perspectives and approaches. This comprehensive view helps in developing a thorough understanding.
+
+### Important Aspects
+1. **Historical Context**: How ${topic} has evolved over time
+2. **Current State**: The present situation and trends
+3. **Future Outlook**: Potential developments and implications
+
+## Conclusion
+${topic} represents a significant area of interest that continues to evolve and impact various aspects of our lives.`;
+
+  if (length === 'short') {
+    return baseContent.split('\n').slice(0, 15).join('\n');
+  } else if (length === 'long') {
+    return baseContent + `\n\n## Additional Resources
+- Further reading materials
+- Related topics to explore
+- Expert opinions and research
+
+## Action Items
+- [ ] Research more about ${topic}
+- [ ] Apply learnings in practical scenarios
+- [ ] Share insights with others`;
+  }
+  return baseContent;
+}
+
+function generateCreativeContent(topic: string, length: NoteLength): string {
+  return `# Creative Exploration: ${topic}
+
+*Imagine if ${topic} could speak...*
+
+## A Different Perspective
+What if we looked at ${topic} through the lens of creativity and imagination? Sometimes the most profound insights come from unexpected angles.
+
+## Creative Insights
+- **Metaphorical View**: ${topic} is like a river - constantly flowing and changing
+- **Artistic Interpretation**: How would ${topic} look as a painting or sculpture?
+- **Storytelling**: The narrative that ${topic} tells us about our world
+
+## Imaginative Scenarios
+Picture a world where ${topic} takes center stage. What would change? How would people interact differently?
+
+## Creative Applications
+- Writing prompts inspired by ${topic}
+- Art projects that explore ${topic}
+- Innovative solutions using ${topic} as inspiration
+
+## Reflection
+Creativity opens doors to understanding that logic alone cannot unlock. ${topic} becomes more than just a concept - it becomes a source of inspiration.`;
+}
+
+function generateTechnicalContent(topic: string, length: NoteLength): string {
+  return `# Technical Guide: ${topic}
+
+## Technical Overview
+This document provides technical specifications and implementation details for ${topic}.
+
+## Architecture
+\`\`\`
+${topic} System Architecture
+├── Core Components
+├── Integration Points
+└── Configuration Options
+\`\`\`
+
+## Implementation
+
+### Prerequisites
+- System requirements
+- Dependencies
+- Environment setup
+
+### Configuration
+\`\`\`json
+{
+  "topic": "${topic}",
+  "version": "1.0.0",
+  "configuration": {
+    "enabled": true,
+    "options": {}
+  }
+}
+\`\`\`
+
+### Code Example
+\`\`\`javascript
+// Example implementation for ${topic}
+function implement${topic.replace(/\s+/g, '')}() {
+  // Implementation logic here
+  return {
+    status: 'success',
+    data: '${topic} implemented successfully'
+  };
+}
+\`\`\`
+
+## Best Practices
+- Follow established patterns
+- Implement proper error handling
+- Document all configurations
+- Test thoroughly
+
+## Troubleshooting
+Common issues and their solutions when working with ${topic}.`;
+}
+
+function generatePersonalContent(topic: string, length: NoteLength): string {
+  return `# My Thoughts on ${topic}
+
+## Personal Reflection
+${topic} has been on my mind lately, and I wanted to capture some thoughts about it.
+
+## Why This Matters to Me
+There's something about ${topic} that resonates with my personal experience and values.
+
+## My Experience
+- **First Encounter**: When I first learned about ${topic}
+- **Learning Journey**: How my understanding has evolved
+- **Current Perspective**: Where I stand today
+
+## Lessons Learned
+Through my exploration of ${topic}, I've discovered:
+
+1. **Insight #1**: Every perspective adds value
+2. **Insight #2**: Continuous learning is essential
+3. **Insight #3**: Practical application deepens understanding
+
+## Future Goals
+- [ ] Deepen my knowledge of ${topic}
+- [ ] Share insights with others
+- [ ] Apply learnings in daily life
+
+## Final Thoughts
+${topic} continues to be a source of learning and growth for me. I'm excited to see where this journey leads.
+
+*Note: These are my personal thoughts and may evolve over time.*`;
+}
+
+function generateContentSuggestions(topic: string): string[] {
+  return [
+    `How to get started with ${topic}`,
+    `Advanced techniques in ${topic}`,
+    `Common mistakes to avoid in ${topic}`,
+    `Best practices for ${topic}`,
+    `The future of ${topic}`,
+    `${topic} vs alternatives`,
+    `Case studies in ${topic}`,
+    `Tools and resources for ${topic}`
+  ];
+}
+
+// Without a model the answer is the best matching passages, quoted and cited
+function quotePassages(passages: ChatPassage[]): string {
+  if (passages.length === 0) {
+    return "I couldn't find anything in your notes about that.";
+  }
+
+  const quotes = passages
+    .slice(0, 3)
+    .map((passage, index) => `> ${passage.text.replace(/\s*\n\s*/g, ' ')} [${index + 1}]`);
+
+  return `Here is what your notes say:\n\n${quotes.join('\n\n')}`;
+}
+
+// Without a model the best we can do for grammar is tidy whitespace and
+// sentence capitalisation; the response is flagged as degraded either way
+function enhanceTextFallback(text: string, type: EnhancementType): string {
+  switch (type) {
+    case 'grammar':
+      return text
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ ([,.;:!?])/g, '$1')
+        .replace(/(^|[.!?]\s+)([a-z])/g, (_, prefix, letter) => prefix + letter.toUpperCase())
+        .trim();
+    case 'summarize': {
+      const sentences = text.split('.').filter(s => s.trim().length > 0);
+      return sentences.slice(0, Math.max(1, Math.floor(sentences.length / 3))).join('. ') + '.';
+    }
+    case 'expand':
+      return `${text}\n\nAdditional context: This topic deserves further exploration and consideration of various perspectives and implications.`;
+    default:
+      return text;
+  }
+}
+
+function extractKeywords(text: string): string[] {
+  const commonWords = ['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should'];
+  
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '')
+    .split(/\s+/)
+    .filter(word => word.length > 3 && !commonWords.includes(word))
+    .slice(0, 10);
+}
+
+function generateTagSuggestions(keywords: string[]): string[] {
+  const tagMap: { [key: string]: string[] } = {
+    'project': ['work', 'planning', 'development'],
+    'meeting': ['work', 'collaboration', 'notes'],
+    'idea': ['creative', 'brainstorm', 'innovation'],
+    'research': ['study', 'analysis', 'learning'],
+    'personal': ['life', 'thoughts', 'journal'],
+    'code': ['programming', 'development', 'tech'],
+    'design': ['creative', 'ui', 'ux'],
+    'business': ['work', 'strategy', 'planning']
+  };
+  
+  const suggestions = new Set<string>();
+  
+  keywords.forEach(keyword => {
+    Object.keys(tagMap).forEach(tag => {
+      if (keyword.includes(tag) || tagMap[tag].some(related => keyword.includes(related))) {
+        suggestions.add(tag);
+        tagMap[tag].forEach(related => suggestions.add(related));
+      }
+    });
+  });
+  
+  return Array.from(suggestions).slice(0, 8);
+}
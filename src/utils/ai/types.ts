@@ -0,0 +1,58 @@
+export type NoteType = 'informative' | 'creative' | 'technical' | 'personal';
+export type NoteLength = 'short' | 'medium' | 'long';
+export type EnhancementType = 'grammar' | 'summarize' | 'expand';
+
+export interface ChatPassage {
+  entryId: string;
+  title: string;
+  text: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type AITaskParams =
+  | { task: 'generate-note'; topic: string; type: NoteType; length: NoteLength }
+  | { task: 'enhance-text'; text: string; type: EnhancementType }
+  | { task: 'content-suggestions'; topic: string }
+  | { task: 'suggest-tags'; content: string }
+  | { task: 'answer-question'; question: string; passages: ChatPassage[]; history: ChatTurn[] };
+
+export type AITask = AITaskParams['task'];
+
+export type AIRequest = AITaskParams & {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+};
+
+export interface AIProvider {
+  readonly name: string;
+  supports(request: AIRequest): boolean;
+  complete(request: AIRequest, signal: AbortSignal): Promise<string>;
+  // Providers that can't stream are sent through complete() and emit one chunk
+  stream?(request: AIRequest, signal: AbortSignal): AsyncIterable<string>;
+}
+
+export interface AITokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AIResult<T> {
+  result: T;
+  provider: string;
+  usage: AITokenUsage;
+  // True when the configured provider failed or can't do the task and the
+  // template fallback answered instead
+  degraded: boolean;
+}
+
+export class AIProviderError extends Error {
+  constructor(message: string, public retryable: boolean, public status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
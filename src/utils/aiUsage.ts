@@ -0,0 +1,129 @@
+import { PrismaClient } from '@prisma/client';
+import { AIResult } from './ai';
+
+const prisma = new PrismaClient();
+
+export type UsagePeriod = 'day' | 'month';
+
+// 0 means unlimited
+const QUOTAS: Record<UsagePeriod, { requests: number; tokens: number }> = {
+  day: {
+    requests: parseInt(process.env.AI_DAILY_REQUEST_LIMIT || '100', 10),
+    tokens: parseInt(process.env.AI_DAILY_TOKEN_LIMIT || '50000', 10)
+  },
+  month: {
+    requests: parseInt(process.env.AI_MONTHLY_REQUEST_LIMIT || '2000', 10),
+    tokens: parseInt(process.env.AI_MONTHLY_TOKEN_LIMIT || '1000000', 10)
+  }
+};
+
+export interface PeriodUsage {
+  requests: number;
+  tokens: number;
+  limits: { requests: number | null; tokens: number | null };
+  periodStart: Date;
+  resetsAt: Date;
+}
+
+export interface QuotaExceeded {
+  period: UsagePeriod;
+  metric: 'requests' | 'tokens';
+  limit: number;
+  used: number;
+  resetsAt: Date;
+}
+
+// Quota periods follow the UTC calendar
+function periodBounds(period: UsagePeriod, now: Date = new Date()): { start: Date; end: Date } {
+  if (period === 'day') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+const getPeriodUsage = async (userId: string, period: UsagePeriod): Promise<PeriodUsage> => {
+  const { start, end } = periodBounds(period);
+
+  const totals = await prisma.aIUsageEvent.aggregate({
+    where: { userId, createdAt: { gte: start } },
+    _count: { _all: true },
+    _sum: { totalTokens: true }
+  });
+
+  return {
+    requests: totals._count._all,
+    tokens: totals._sum.totalTokens ?? 0,
+    limits: {
+      requests: QUOTAS[period].requests || null,
+      tokens: QUOTAS[period].tokens || null
+    },
+    periodStart: start,
+    resetsAt: end
+  };
+};
+
+export const getUsageSummary = async (userId: string) => {
+  const [day, month] = await Promise.all([
+    getPeriodUsage(userId, 'day'),
+    getPeriodUsage(userId, 'month')
+  ]);
+
+  const byTask = await prisma.aIUsageEvent.groupBy({
+    by: ['task'],
+    where: { userId, createdAt: { gte: month.periodStart } },
+    _count: { _all: true },
+    _sum: { totalTokens: true }
+  });
+
+  return {
+    day,
+    month,
+    byTask: byTask.map(group => ({
+      task: group.task,
+      requests: group._count._all,
+      tokens: group._sum.totalTokens ?? 0
+    }))
+  };
+};
+
+// The first quota the user has used up, checking the daily window first
+export const findExceededQuota = async (userId: string): Promise<QuotaExceeded | null> => {
+  for (const period of ['day', 'month'] as UsagePeriod[]) {
+    const usage = await getPeriodUsage(userId, period);
+
+    for (const metric of ['requests', 'tokens'] as const) {
+      const limit = usage.limits[metric];
+      if (limit !== null && usage[metric] >= limit) {
+        return { period, metric, limit, used: usage[metric], resetsAt: usage.resetsAt };
+      }
+    }
+  }
+
+  return null;
+};
+
+export const recordAIUsage = async (userId: string, task: string, result: Pick<AIResult<unknown>, 'provider' | 'degraded' | 'usage'>): Promise<void> => {
+  const { promptTokens, completionTokens } = result.usage;
+
+  try {
+    await prisma.aIUsageEvent.create({
+      data: {
+        userId,
+        task,
+        provider: result.provider,
+        degraded: result.degraded,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    });
+  } catch (error) {
+    // Metering must never fail the request that was already answered
+    console.error('Record AI usage error:', error);
+  }
+};
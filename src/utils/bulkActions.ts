@@ -0,0 +1,177 @@
+import { PrismaClient, Prisma, Entry } from '@prisma/client';
+import { addEntryStats, removeEntryStats } from './entryStats';
+
+const prisma = new PrismaClient();
+
+export const BULK_ACTIONS = ['trash', 'restore', 'tag', 'untag', 'move', 'share'] as const;
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export const BULK_MAX_ENTRIES = parseInt(process.env.BULK_MAX_ENTRIES || '100', 10);
+
+// Everything an action needs besides the entries, resolved by the route first
+export interface BulkActionParams {
+  tagNames?: string[];
+  notebookId?: string | null;
+  shareWithId?: string;
+  permission?: string;
+}
+
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+// Why an entry can't take part in the action, or null when it can
+function checkEntry(action: BulkAction, entry: Entry | undefined): string | null {
+  if (!entry) return 'Entry not found';
+  if (action === 'restore') {
+    return entry.isDeleted ? null : 'Entry is not in the trash';
+  }
+  return entry.isDeleted ? 'Entry is in the trash' : null;
+}
+
+// The entries are locked and checked before the guarded updates run, so
+// each update should match all of them; if not, the whole action is undone
+const assertAllChanged = (count: number, ids: string[]): void => {
+  if (count !== ids.length) {
+    throw new Error(`Bulk update matched ${count} of ${ids.length} entries`);
+  }
+};
+
+const applyAction = async (
+  tx: Prisma.TransactionClient,
+  action: BulkAction,
+  userId: string,
+  entries: Entry[],
+  params: BulkActionParams
+): Promise<void> => {
+  const ids = entries.map(entry => entry.id);
+
+  switch (action) {
+    case 'trash': {
+      const { count } = await tx.entry.updateMany({
+        where: { id: { in: ids }, userId, isDeleted: false },
+        data: { isDeleted: true, deletedAt: new Date() }
+      });
+      assertAllChanged(count, ids);
+      await removeEntryStats(tx, userId, entries);
+      break;
+    }
+    case 'restore': {
+      const { count } = await tx.entry.updateMany({
+        where: { id: { in: ids }, userId, isDeleted: true },
+        data: { isDeleted: false, deletedAt: null }
+      });
+      assertAllChanged(count, ids);
+      await addEntryStats(tx, userId, entries);
+      break;
+    }
+    case 'tag': {
+      const tagIds: string[] = [];
+      for (const name of params.tagNames!) {
+        const tag = await tx.tag.upsert({
+          where: { userId_name: { userId, name } },
+          update: {},
+          create: { name, userId }
+        });
+        tagIds.push(tag.id);
+      }
+
+      await tx.entryTag.createMany({
+        data: ids.flatMap(entryId => tagIds.map(tagId => ({ entryId, tagId }))),
+        skipDuplicates: true
+      });
+      break;
+    }
+    case 'untag':
+      await tx.entryTag.deleteMany({
+        where: {
+          entryId: { in: ids },
+          tag: { userId, name: { in: params.tagNames! } }
+        }
+      });
+      break;
+    case 'move':
+      await tx.entry.updateMany({
+        where: { id: { in: ids }, userId },
+        data: { notebookId: params.notebookId ?? null }
+      });
+      break;
+    case 'share': {
+      const existing = await tx.sharedEntry.findMany({
+        where: { entryId: { in: ids }, sharedWithId: params.shareWithId! },
+        select: { entryId: true }
+      });
+      const alreadyShared = new Set(existing.map(share => share.entryId));
+
+      await tx.sharedEntry.updateMany({
+        where: { entryId: { in: [...alreadyShared] }, sharedWithId: params.shareWithId! },
+        data: { permission: params.permission! }
+      });
+      await tx.sharedEntry.createMany({
+        data: ids
+          .filter(entryId => !alreadyShared.has(entryId))
+          .map(entryId => ({
+            entryId,
+            sharedById: userId,
+            sharedWithId: params.shareWithId!,
+            permission: params.permission!
+          }))
+      });
+      break;
+    }
+  }
+};
+
+// Applying one action to many of the user's entries. Entries that can't take
+// part are reported individually; the rest are changed together in a single
+// transaction, so they either all succeed or all fail. The entries are locked
+// and checked inside that transaction, so one trashed or restored meanwhile
+// is reported instead of changed, and its stats are only moved once.
+export const runBulkAction = async (
+  userId: string,
+  action: BulkAction,
+  ids: string[],
+  params: BulkActionParams
+): Promise<BulkItemResult[]> => {
+  const uniqueIds = [...new Set(ids)];
+  const results = new Map<string, BulkItemResult>();
+
+  try {
+    const changed = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`
+        SELECT id FROM entries WHERE id = ANY(${uniqueIds}) AND user_id = ${userId} ORDER BY id FOR UPDATE
+      `;
+      const entries = await tx.entry.findMany({
+        where: { id: { in: uniqueIds }, userId }
+      });
+      const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+
+      const eligible: Entry[] = [];
+      uniqueIds.forEach(id => {
+        const entry = entriesById.get(id);
+        const error = checkEntry(action, entry);
+        if (error) {
+          results.set(id, { id, success: false, error });
+        } else {
+          eligible.push(entry!);
+        }
+      });
+
+      if (eligible.length > 0) {
+        await applyAction(tx, action, userId, eligible, params);
+      }
+      return eligible;
+    });
+
+    changed.forEach(({ id }) => results.set(id, { id, success: true }));
+  } catch (error) {
+    console.error('Bulk action error:', error);
+    uniqueIds
+      .filter(id => !results.has(id))
+      .forEach(id => results.set(id, { id, success: false, error: 'The action could not be applied' }));
+  }
+
+  return uniqueIds.map(id => results.get(id)!);
+};
@@ -43,3 +43,9 @@ export const deleteFromCloudinary = async (publicId: string): Promise<any> => {
     throw new Error("Failed to delete image from Cloudinary");
   }
 };
+
+// Public id of an avatar uploaded to the notely/avatars folder, from its URL
+export const avatarPublicId = (avatarUrl: string): string | null => {
+  const publicId = avatarUrl.split('/').pop()?.split('.')[0];
+  return publicId ? `notely/avatars/${publicId}` : null;
+};
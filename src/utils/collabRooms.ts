@@ -0,0 +1,345 @@
+import { PrismaClient } from '@prisma/client';
+import { apply, transform, transformPosition, diffToOp, TextOp } from './ot';
+import { recordRevision, ensureBaselineRevision } from './revisions';
+import { queueEntryIndexing } from './semanticIndex';
+import { getEntryAccess } from './entryAccess';
+import { isSessionActive } from './sessions';
+import { countWords, recordContentChange } from './entryStats';
+import { EntryPermission } from '../types';
+
+const prisma = new PrismaClient();
+
+const SAVE_INTERVAL_MS = parseInt(process.env.COLLAB_SAVE_INTERVAL_MS || '5000', 10);
+// Operations kept for transforming late edits; older clients have to rejoin
+const HISTORY_LIMIT = 500;
+const MAX_CONTENT_LENGTH = 1024 * 1024;
+
+export interface CursorRange {
+  anchor: number;
+  head: number;
+}
+
+export interface CollabPeer {
+  clientId: string;
+  userId: string;
+  username: string;
+  permission: EntryPermission;
+  cursor: CursorRange | null;
+}
+
+export interface CollabClient extends CollabPeer {
+  sessionId: string;
+  send(message: object): void;
+}
+
+export interface CollabRoom {
+  entryId: string;
+  content: string;
+  version: number;
+  // Version of the oldest operation still in history
+  baseVersion: number;
+  // clientId is null for changes saved outside the room
+  history: Array<{ op: TextOp; clientId: string | null }>;
+  clients: Map<string, CollabClient>;
+  // The entry row as of the last save or reload, and the room version it matches
+  savedContent: string;
+  savedVersion: number;
+  savedAt: Date;
+  lastAuthorId: string | null;
+  saveTimer: NodeJS.Timeout;
+  // Saves run one at a time
+  saving: Promise<void>;
+  // Set once the room is closed; clients still holding it have to rejoin
+  closed: boolean;
+}
+
+export class CollabError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'CollabError';
+  }
+}
+
+const rooms = new Map<string, CollabRoom>();
+const loadingRooms = new Map<string, Promise<CollabRoom>>();
+// Rooms whose final save is still running; reopening waits for it
+const closingRooms = new Map<string, Promise<void>>();
+
+export const toPeer = ({ clientId, userId, username, permission, cursor }: CollabClient): CollabPeer => ({
+  clientId, userId, username, permission, cursor
+});
+
+export const broadcast = (room: CollabRoom, message: object, exceptClientId?: string): void => {
+  room.clients.forEach(client => {
+    if (client.clientId !== exceptClientId) client.send(message);
+  });
+};
+
+// Adding an operation to the room's text and history, and moving everyone's
+// cursor along with it
+const pushOp = (room: CollabRoom, op: TextOp, clientId: string | null): void => {
+  room.content = apply(room.content, op);
+  room.version++;
+  room.history.push({ op, clientId });
+
+  if (room.history.length > HISTORY_LIMIT) {
+    room.history.shift();
+    room.baseVersion++;
+  }
+
+  room.clients.forEach(peer => {
+    if (peer.cursor && peer.clientId !== clientId) {
+      peer.cursor = {
+        anchor: transformPosition(peer.cursor.anchor, op),
+        head: transformPosition(peer.cursor.head, op)
+      };
+    }
+  });
+};
+
+// Bringing in text saved outside the room (an update over HTTP, a revision
+// restore). It was made against the text of the last save, so it is
+// transformed over the edits made in the room since then, like a late client
+// edit, and sent to everyone in the room.
+const rebaseRoom = (room: CollabRoom, content: string, lastUpdated: Date): void => {
+  const external = diffToOp(room.savedContent, content);
+
+  if (external.length > 0) {
+    if (room.savedVersion < room.baseVersion) {
+      // The edits since the last save have left the history, so the saved
+      // text wins and everyone starts again from it
+      room.content = content;
+      room.version++;
+      room.baseVersion = room.version;
+      room.history = [];
+      room.clients.forEach(peer => {
+        peer.cursor = null;
+      });
+      broadcast(room, { type: 'resync', entryId: room.entryId, version: room.version, content });
+    } else {
+      let op = external;
+      room.history.slice(room.savedVersion - room.baseVersion).forEach(entry => {
+        op = transform(op, entry.op, 'right');
+      });
+
+      pushOp(room, op, null);
+      broadcast(room, { type: 'op', entryId: room.entryId, version: room.version, op, clientId: null, userId: null });
+    }
+  }
+
+  room.savedContent = content;
+  room.savedVersion = room.version;
+  room.savedAt = lastUpdated;
+};
+
+// Writing the live text to the entry row. The row is locked first; if it
+// changed since the last save, that change is merged into the room instead of
+// being overwritten. Every write is recorded as a revision.
+const writeRoom = async (room: CollabRoom): Promise<void> => {
+  const written = await prisma.$transaction(async (tx) => {
+    const rows = await tx.$queryRaw<{ content: string; lastUpdated: Date }[]>`
+      SELECT content, last_updated AS "lastUpdated" FROM entries WHERE id = ${room.entryId} FOR UPDATE
+    `;
+    const row = rows[0];
+    if (!row) return null;
+
+    if (row.lastUpdated.getTime() !== room.savedAt.getTime()) {
+      rebaseRoom(room, row.content, row.lastUpdated);
+    }
+
+    const content = room.content;
+    const version = room.version;
+    if (content === row.content) return null;
+
+    const entry = await tx.entry.update({
+      where: { id: room.entryId },
+      data: { content, wordCount: countWords(content) }
+    });
+
+    await ensureBaselineRevision(tx, { ...entry, content: row.content });
+    await recordRevision(tx, entry, room.lastAuthorId ?? entry.userId);
+    await recordContentChange(tx, entry, { content: row.content, wordCount: countWords(row.content) });
+
+    return { content, version, lastUpdated: entry.lastUpdated };
+  });
+
+  if (written) {
+    const { content, version, lastUpdated } = written;
+    room.savedContent = content;
+    room.savedVersion = version;
+    room.savedAt = lastUpdated;
+    queueEntryIndexing(room.entryId);
+  }
+};
+
+const saveRoom = (room: CollabRoom): Promise<void> => {
+  room.saving = room.saving
+    .catch(() => undefined)
+    .then(() => writeRoom(room));
+  return room.saving;
+};
+
+const loadRoom = async (entryId: string): Promise<CollabRoom> => {
+  const entry = await prisma.entry.findFirst({
+    where: { id: entryId, isDeleted: false }
+  });
+
+  if (!entry) {
+    throw new CollabError('Entry not found', 'not_found');
+  }
+
+  const room: CollabRoom = {
+    entryId,
+    content: entry.content,
+    version: 0,
+    baseVersion: 0,
+    history: [],
+    clients: new Map(),
+    savedContent: entry.content,
+    savedVersion: 0,
+    savedAt: entry.lastUpdated,
+    lastAuthorId: null,
+    saveTimer: setInterval(() => {
+      checkRoom(room).catch(error => console.error('Collaboration save error:', error));
+    }, SAVE_INTERVAL_MS),
+    saving: Promise.resolve(),
+    closed: false
+  };
+
+  rooms.set(entryId, room);
+  return room;
+};
+
+export const joinRoom = async (entryId: string, client: CollabClient): Promise<CollabRoom> => {
+  let room = rooms.get(entryId);
+
+  if (!room) {
+    let loading = loadingRooms.get(entryId);
+    if (!loading) {
+      const closing = closingRooms.get(entryId) ?? Promise.resolve();
+      loading = closing.catch(() => undefined).then(() => loadRoom(entryId)).finally(() => loadingRooms.delete(entryId));
+      loadingRooms.set(entryId, loading);
+    }
+    room = await loading;
+  }
+
+  room.clients.set(client.clientId, client);
+  broadcast(room, { type: 'presence', entryId, event: 'join', peer: toPeer(client) }, client.clientId);
+  return room;
+};
+
+// Saving what's left once the last collaborator has gone
+const closeRoom = (room: CollabRoom): Promise<void> => {
+  const { entryId } = room;
+  clearInterval(room.saveTimer);
+  room.closed = true;
+  if (rooms.get(entryId) === room) rooms.delete(entryId);
+
+  const closing: Promise<void> = saveRoom(room).finally(() => {
+    if (closingRooms.get(entryId) === closing) closingRooms.delete(entryId);
+  });
+  closingRooms.set(entryId, closing);
+  return closing;
+};
+
+// Closing the room for everyone because the entry was trashed or deleted.
+// Edits still unsaved go into a trashed entry so a restore keeps them.
+const dropRoom = async (room: CollabRoom): Promise<void> => {
+  broadcast(room, { type: 'error', entryId: room.entryId, code: 'not_found', message: 'This entry is no longer available' });
+  room.clients.clear();
+  await closeRoom(room);
+};
+
+// Whether the client may still be in the room, refreshing its permission.
+// A revoked session (logout, deactivated account), a revoked share or the
+// entry going to the trash all end access.
+export const refreshClientAccess = async (room: CollabRoom, client: CollabClient): Promise<boolean> => {
+  if (!(await isSessionActive(client.sessionId, client.userId))) return false;
+
+  const access = await getEntryAccess(room.entryId, client.userId);
+  if (!access) return false;
+
+  client.permission = access.permission;
+  return true;
+};
+
+// Removing a client that lost access
+export const evictClient = async (room: CollabRoom, client: CollabClient): Promise<void> => {
+  client.send({ type: 'error', entryId: room.entryId, code: 'access_revoked', message: 'You no longer have access to this entry' });
+  await leaveRoom(room.entryId, client.clientId);
+};
+
+// The periodic check: drop the room if the entry is gone, remove anyone who
+// lost access, then save
+const checkRoom = async (room: CollabRoom): Promise<void> => {
+  if (room.closed) return;
+
+  const entry = await prisma.entry.findUnique({
+    where: { id: room.entryId },
+    select: { isDeleted: true }
+  });
+
+  if (!entry || entry.isDeleted) {
+    await dropRoom(room);
+    return;
+  }
+
+  for (const client of Array.from(room.clients.values())) {
+    if (!(await refreshClientAccess(room, client))) {
+      await evictClient(room, client);
+    }
+  }
+
+  // Removing the last client closes and saves the room already
+  if (!room.closed) {
+    await saveRoom(room);
+  }
+};
+
+export const leaveRoom = async (entryId: string, clientId: string): Promise<void> => {
+  const room = rooms.get(entryId);
+  if (!room || room.closed || !room.clients.delete(clientId)) return;
+
+  broadcast(room, { type: 'presence', entryId, event: 'leave', peer: { clientId } });
+
+  if (room.clients.size === 0) {
+    await closeRoom(room);
+  }
+};
+
+// Applying an edit made against `version`. Edits the client hadn't seen yet
+// are transformed in first, so concurrent changes from everyone are kept.
+export const applyClientOp = (room: CollabRoom, client: CollabClient, version: number, op: TextOp): { version: number; op: TextOp } => {
+  if (room.closed) {
+    throw new CollabError('This entry is no longer available', 'not_found');
+  }
+
+  if (client.permission === 'read') {
+    throw new CollabError('You do not have permission to edit this entry', 'forbidden');
+  }
+
+  if (version > room.version || version < room.baseVersion) {
+    throw new CollabError('Document version is out of date, rejoin to resync', 'resync');
+  }
+
+  let transformed = op;
+  room.history.slice(version - room.baseVersion).forEach(entry => {
+    transformed = transform(transformed, entry.op, 'right');
+  });
+
+  let content: string;
+  try {
+    content = apply(room.content, transformed);
+  } catch (error: any) {
+    throw new CollabError(error.message, 'invalid_op');
+  }
+
+  if (content.length > MAX_CONTENT_LENGTH) {
+    throw new CollabError('Entry content is too large', 'invalid_op');
+  }
+
+  pushOp(room, transformed, client.clientId);
+  room.lastAuthorId = client.userId;
+
+  return { version: room.version, op: transformed };
+};
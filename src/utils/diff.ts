@@ -0,0 +1,72 @@
+export type DiffStep = 'equal' | 'removed' | 'added';
+
+// Myers' O(ND) diff of two sequences: the steps that walk from `a` to `b`,
+// taking from both lists on 'equal', from `a` on 'removed' and from `b` on
+// 'added'. Time grows with the number of differences rather than the product
+// of the lengths. Returns null when more than `maxEdits` insertions and
+// deletions would be needed, so callers can fall back to something cheaper.
+export function diffSequences<T>(a: T[], b: T[], maxEdits: number): DiffStep[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // The furthest x reached on each diagonal after every round, [-d..d] only
+  const trace: Int32Array[] = [];
+
+  v[offset + 1] = 0;
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]);
+      let x = down ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, n, m);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffStep[] {
+  const steps: DiffStep[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    // previous[0] is diagonal -(d - 1)
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      steps.push('equal');
+      x--;
+      y--;
+    }
+    steps.push(down ? 'added' : 'removed');
+    x = previousX;
+    y = previousY;
+  }
+
+  while (x > 0 && y > 0) {
+    steps.push('equal');
+    x--;
+    y--;
+  }
+
+  return steps.reverse();
+}
@@ -0,0 +1,58 @@
+import { sendMail } from './mailer';
+import { createUserToken, TOKEN_TYPES } from './userTokens';
+
+const frontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export const sendPasswordResetEmail = async (to: string, firstName: string, token: string): Promise<void> => {
+  const link = `${frontendUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to,
+    subject: 'Reset your Notely password',
+    text: `Hi ${firstName},\n\nWe received a request to reset your Notely password. Use the link below within the next hour:\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(firstName)},</p><p>We received a request to reset your Notely password. Use the link below within the next hour:</p><p><a href="${link}">Reset password</a></p><p>If you didn't ask for this, you can ignore this email.</p>`
+  });
+};
+
+export const sendVerificationEmail = async (to: string, firstName: string, token: string): Promise<void> => {
+  const link = `${frontendUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to,
+    subject: 'Verify your email for Notely',
+    text: `Hi ${firstName},\n\nPlease confirm this email address for your Notely account:\n\n${link}\n\nThe link expires in 24 hours.`,
+    html: `<p>Hi ${escapeHtml(firstName)},</p><p>Please confirm this email address for your Notely account:</p><p><a href="${link}">Verify email</a></p><p>The link expires in 24 hours.</p>`
+  });
+};
+
+// Issuing a verification token for the address and mailing the link to it
+export const startEmailVerification = async (userId: string, firstName: string, email: string): Promise<void> => {
+  const token = await createUserToken(userId, TOKEN_TYPES.EMAIL_VERIFICATION, email);
+  await sendVerificationEmail(email, firstName, token);
+};
+
+export const sendShareInvitationEmail = async (
+  to: string,
+  inviterName: string,
+  entryTitle: string,
+  token: string,
+  expiresAt: Date
+): Promise<void> => {
+  const link = `${frontendUrl()}/invitations?token=${encodeURIComponent(token)}`;
+  const expires = expiresAt.toDateString();
+
+  await sendMail({
+    to,
+    subject: `${inviterName} shared a note with you on Notely`,
+    text: `Hi,\n\n${inviterName} shared "${entryTitle}" with you on Notely. Create an account or log in with this email address to open it:\n\n${link}\n\nThe invitation expires on ${expires}.`,
+    html: `<p>Hi,</p><p>${escapeHtml(inviterName)} shared &quot;${escapeHtml(entryTitle)}&quot; with you on Notely. Create an account or log in with this email address to open it:</p><p><a href="${link}">Open invitation</a></p><p>The invitation expires on ${expires}.</p>`
+  });
+};
@@ -0,0 +1,58 @@
+import { PrismaClient, Prisma, Entry } from '@prisma/client';
+import { EntryPermission } from '../types';
+
+const prisma = new PrismaClient();
+
+export interface EntryAccess {
+  entry: Entry;
+  permission: EntryPermission;
+}
+
+// Resolving what the user may do with an entry: owners get full access,
+// recipients of a share get the permission recorded on the SharedEntry row
+export const getEntryAccess = async (
+  entryId: string,
+  userId: string
+): Promise<EntryAccess | null> => {
+  const entry = await prisma.entry.findFirst({
+    where: { id: entryId, isDeleted: false },
+    include: {
+      sharedEntries: {
+        where: { sharedWithId: userId },
+        select: { permission: true }
+      }
+    }
+  });
+
+  if (!entry) return null;
+
+  const { sharedEntries, ...entryData } = entry;
+
+  if (entryData.userId === userId) {
+    return { entry: entryData, permission: 'owner' };
+  }
+
+  const share = sharedEntries[0];
+  if (!share) return null;
+
+  return {
+    entry: entryData,
+    permission: share.permission.toLowerCase() === 'edit' ? 'edit' : 'read'
+  };
+};
+
+// Reading an entry with its row locked until the transaction ends, so a
+// write based on what it reads can't interleave with another one
+export const lockEntry = async (tx: Prisma.TransactionClient, entryId: string): Promise<Entry | null> => {
+  await tx.$queryRaw`SELECT id FROM entries WHERE id = ${entryId} FOR UPDATE`;
+  return tx.entry.findUnique({ where: { id: entryId } });
+};
+
+export function canEditEntry(permission: EntryPermission): boolean {
+  return permission === 'owner' || permission === 'edit';
+}
+
+// Deleting, restoring and re-sharing are reserved for the owner
+export function canManageEntry(permission: EntryPermission): boolean {
+  return permission === 'owner';
+}
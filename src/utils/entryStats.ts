@@ -0,0 +1,318 @@
+import { PrismaClient, Prisma, Entry } from '@prisma/client';
+import { getUserTimeZone, zonedDayKey, zonedParts } from './timezone';
+
+const prisma = new PrismaClient();
+
+type StatsClient = PrismaClient | Prisma.TransactionClient;
+type StatsEntry = Pick<Entry, 'dateCreated' | 'content' | 'wordCount'>;
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they']);
+
+// Longer "words" are pasted links or encoded data, not vocabulary
+const MAX_WORD_LENGTH = 64;
+
+export const LENGTH_BUCKETS = ['short', 'medium', 'long'] as const;
+export type LengthBucketName = typeof LENGTH_BUCKETS[number];
+
+// The add_analytics_rollups migration backfills with the same rules in SQL,
+// so keep the two in step
+export function countWords(content: string): number {
+  const trimmed = content.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+// Words worth reporting in insights: lower-cased, punctuation removed, longer
+// than three letters and not a stop word
+export function wordFrequencies(content: string): Map<string, number> {
+  const frequencies = new Map<string, number>();
+
+  content
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '')
+    .split(/\s+/)
+    .filter(word => word.length > 3 && word.length <= MAX_WORD_LENGTH && !STOP_WORDS.has(word))
+    .forEach(word => frequencies.set(word, (frequencies.get(word) ?? 0) + 1));
+
+  return frequencies;
+}
+
+// The add_insight_rollups migration backfills with the same limits
+export function lengthBucket(wordCount: number): LengthBucketName {
+  if (wordCount < 100) return 'short';
+  if (wordCount < 500) return 'medium';
+  return 'long';
+}
+
+const adjustDailyActivity = async (
+  client: StatsClient,
+  userId: string,
+  days: Map<string, { entries: number; words: number }>
+): Promise<void> => {
+  const keys = [...days.keys()];
+  if (keys.length === 0) return;
+
+  const entryCounts = keys.map(key => days.get(key)!.entries);
+  const wordCounts = keys.map(key => days.get(key)!.words);
+
+  await client.$executeRaw`
+    INSERT INTO daily_activity (user_id, day, entry_count, word_count)
+    SELECT ${userId}, d.day, d.entry_count, d.word_count
+    FROM unnest(${keys}::date[], ${entryCounts}::int[], ${wordCounts}::int[]) AS d(day, entry_count, word_count)
+    ON CONFLICT (user_id, day) DO UPDATE SET
+      entry_count = daily_activity.entry_count + EXCLUDED.entry_count,
+      word_count = daily_activity.word_count + EXCLUDED.word_count
+  `;
+  await client.$executeRaw`
+    DELETE FROM daily_activity
+    WHERE user_id = ${userId} AND day = ANY(${keys}::date[]) AND entry_count <= 0
+  `;
+};
+
+const adjustWordCounts = async (
+  client: StatsClient,
+  userId: string,
+  changes: Map<string, number>
+): Promise<void> => {
+  const words = [...changes.keys()].filter(word => changes.get(word) !== 0);
+  if (words.length === 0) return;
+
+  const counts = words.map(word => changes.get(word)!);
+
+  await client.$executeRaw`
+    INSERT INTO word_counts (user_id, word, count)
+    SELECT ${userId}, w.word, w.count
+    FROM unnest(${words}::text[], ${counts}::int[]) AS w(word, count)
+    ON CONFLICT (user_id, word) DO UPDATE SET count = word_counts.count + EXCLUDED.count
+  `;
+  await client.$executeRaw`
+    DELETE FROM word_counts
+    WHERE user_id = ${userId} AND word = ANY(${words}::text[]) AND count <= 0
+  `;
+};
+
+const adjustHourlyActivity = async (
+  client: StatsClient,
+  userId: string,
+  changes: Map<number, number>
+): Promise<void> => {
+  const hours = [...changes.keys()].filter(hour => changes.get(hour) !== 0);
+  if (hours.length === 0) return;
+
+  const counts = hours.map(hour => changes.get(hour)!);
+
+  await client.$executeRaw`
+    INSERT INTO hourly_activity (user_id, hour, entry_count)
+    SELECT ${userId}, h.hour, h.entry_count
+    FROM unnest(${hours}::int[], ${counts}::int[]) AS h(hour, entry_count)
+    ON CONFLICT (user_id, hour) DO UPDATE SET entry_count = hourly_activity.entry_count + EXCLUDED.entry_count
+  `;
+  await client.$executeRaw`
+    DELETE FROM hourly_activity
+    WHERE user_id = ${userId} AND hour = ANY(${hours}::int[]) AND entry_count <= 0
+  `;
+};
+
+const adjustLengthBuckets = async (
+  client: StatsClient,
+  userId: string,
+  changes: Map<LengthBucketName, number>
+): Promise<void> => {
+  const buckets = [...changes.keys()].filter(bucket => changes.get(bucket) !== 0);
+  if (buckets.length === 0) return;
+
+  const counts = buckets.map(bucket => changes.get(bucket)!);
+
+  await client.$executeRaw`
+    INSERT INTO length_buckets (user_id, bucket, entry_count)
+    SELECT ${userId}, b.bucket, b.entry_count
+    FROM unnest(${buckets}::text[], ${counts}::int[]) AS b(bucket, entry_count)
+    ON CONFLICT (user_id, bucket) DO UPDATE SET entry_count = length_buckets.entry_count + EXCLUDED.entry_count
+  `;
+  await client.$executeRaw`
+    DELETE FROM length_buckets
+    WHERE user_id = ${userId} AND bucket = ANY(${buckets}::text[]) AND entry_count <= 0
+  `;
+};
+
+const applyEntryStats = async (
+  client: StatsClient,
+  userId: string,
+  entries: StatsEntry[],
+  sign: 1 | -1
+): Promise<void> => {
+  if (entries.length === 0) return;
+
+  const timeZone = await getUserTimeZone(userId);
+  const days = new Map<string, { entries: number; words: number }>();
+  const words = new Map<string, number>();
+  const hours = new Map<number, number>();
+  const buckets = new Map<LengthBucketName, number>();
+
+  entries.forEach(entry => {
+    const key = zonedDayKey(entry.dateCreated, timeZone);
+    const day = days.get(key) ?? { entries: 0, words: 0 };
+    day.entries += sign;
+    day.words += sign * entry.wordCount;
+    days.set(key, day);
+
+    const { hour } = zonedParts(entry.dateCreated, timeZone);
+    hours.set(hour, (hours.get(hour) ?? 0) + sign);
+
+    const bucket = lengthBucket(entry.wordCount);
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + sign);
+
+    wordFrequencies(entry.content).forEach((count, word) => {
+      words.set(word, (words.get(word) ?? 0) + sign * count);
+    });
+  });
+
+  await adjustDailyActivity(client, userId, days);
+  await adjustWordCounts(client, userId, words);
+  await adjustHourlyActivity(client, userId, hours);
+  await adjustLengthBuckets(client, userId, buckets);
+};
+
+// Entries joining the counted set: newly created, or restored from the trash
+export const addEntryStats = (client: StatsClient, userId: string, entries: StatsEntry[]): Promise<void> =>
+  applyEntryStats(client, userId, entries, 1);
+
+// Entries leaving it by moving to the trash
+export const removeEntryStats = (client: StatsClient, userId: string, entries: StatsEntry[]): Promise<void> =>
+  applyEntryStats(client, userId, entries, -1);
+
+// An entry's content changed from `previous`. Entries in the trash aren't
+// counted, so editing one changes nothing.
+export const recordContentChange = async (
+  client: StatsClient,
+  entry: StatsEntry & Pick<Entry, 'userId' | 'isDeleted'>,
+  previous: Pick<Entry, 'content' | 'wordCount'>
+): Promise<void> => {
+  if (entry.isDeleted || entry.content === previous.content) return;
+
+  const timeZone = await getUserTimeZone(entry.userId);
+  const words = wordFrequencies(entry.content);
+  wordFrequencies(previous.content).forEach((count, word) => {
+    words.set(word, (words.get(word) ?? 0) - count);
+  });
+
+  await adjustDailyActivity(client, entry.userId, new Map([
+    [zonedDayKey(entry.dateCreated, timeZone), { entries: 0, words: entry.wordCount - previous.wordCount }]
+  ]));
+  await adjustWordCounts(client, entry.userId, words);
+
+  const bucket = lengthBucket(entry.wordCount);
+  const previousBucket = lengthBucket(previous.wordCount);
+  if (bucket !== previousBucket) {
+    await adjustLengthBuckets(client, entry.userId, new Map([[bucket, 1], [previousBucket, -1]]));
+  }
+};
+
+const STATS_RECONCILE_INTERVAL_MS = parseInt(process.env.STATS_RECONCILE_INTERVAL_MS || String(24 * 60 * 60 * 1000), 10);
+const RECONCILE_BATCH_SIZE = 100;
+
+const rebuildDailyActivityRows = async (client: StatsClient, userId: string, timeZone: string): Promise<void> => {
+  await client.dailyActivity.deleteMany({ where: { userId } });
+  await client.$executeRaw`
+    INSERT INTO daily_activity (user_id, day, entry_count, word_count)
+    SELECT user_id, ((date_created AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date, COUNT(*), SUM(word_count)
+    FROM entries
+    WHERE user_id = ${userId} AND is_deleted = false
+    GROUP BY 1, 2
+  `;
+};
+
+const rebuildHourlyActivityRows = async (client: StatsClient, userId: string, timeZone: string): Promise<void> => {
+  await client.hourlyActivity.deleteMany({ where: { userId } });
+  await client.$executeRaw`
+    INSERT INTO hourly_activity (user_id, hour, entry_count)
+    SELECT user_id, EXTRACT(HOUR FROM (date_created AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::int, COUNT(*)
+    FROM entries
+    WHERE user_id = ${userId} AND is_deleted = false
+    GROUP BY 1, 2
+  `;
+};
+
+// Same limits as lengthBucket
+const rebuildLengthBucketRows = async (client: StatsClient, userId: string): Promise<void> => {
+  await client.lengthBucket.deleteMany({ where: { userId } });
+  await client.$executeRaw`
+    INSERT INTO length_buckets (user_id, bucket, entry_count)
+    SELECT user_id, CASE WHEN word_count < 100 THEN 'short' WHEN word_count < 500 THEN 'medium' ELSE 'long' END, COUNT(*)
+    FROM entries
+    WHERE user_id = ${userId} AND is_deleted = false
+    GROUP BY 1, 2
+  `;
+};
+
+// Same tokenizing as wordFrequencies
+const rebuildWordCountRows = async (client: StatsClient, userId: string): Promise<void> => {
+  await client.wordCount.deleteMany({ where: { userId } });
+  await client.$executeRaw`
+    INSERT INTO word_counts (user_id, word, count)
+    SELECT e.user_id, w.word, COUNT(*)
+    FROM entries e,
+      LATERAL regexp_split_to_table(regexp_replace(lower(e.content), '[^a-z0-9_[:space:]]', '', 'g'), '[[:space:]]+') AS w(word)
+    WHERE e.user_id = ${userId} AND e.is_deleted = false
+      AND length(w.word) BETWEEN 4 AND ${MAX_WORD_LENGTH}
+      AND w.word <> ALL(${[...STOP_WORDS]}::text[])
+    GROUP BY 1, 2
+  `;
+};
+
+// Recomputing the daily and hourly rollups from the entries, needed when the
+// user's timezone changes and entries fall on different days and hours. Runs
+// in the caller's transaction, together with saving the new `timeZone`.
+export const rebuildZonedActivity = async (tx: Prisma.TransactionClient, userId: string, timeZone: string): Promise<void> => {
+  await rebuildDailyActivityRows(tx, userId, timeZone);
+  await rebuildHourlyActivityRows(tx, userId, timeZone);
+};
+
+// Recomputing every rollup from the entries
+export const rebuildEntryStats = async (userId: string): Promise<void> => {
+  const timeZone = await getUserTimeZone(userId);
+
+  await prisma.$transaction(async (tx) => {
+    await rebuildZonedActivity(tx, userId, timeZone);
+    await rebuildLengthBucketRows(tx, userId);
+    await rebuildWordCountRows(tx, userId);
+  });
+};
+
+// Rebuilding the rollups of every user, one at a time, so any drift from
+// writes that raced each other doesn't last
+export const reconcileEntryStats = async (): Promise<number> => {
+  let cursor: string | undefined;
+  let rebuilt = 0;
+
+  for (;;) {
+    const users = await prisma.user.findMany({
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: RECONCILE_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    for (const { id } of users) {
+      await rebuildEntryStats(id);
+      rebuilt++;
+    }
+
+    if (users.length < RECONCILE_BATCH_SIZE) break;
+    cursor = users[users.length - 1].id;
+  }
+
+  return rebuilt;
+};
+
+// Reconciling every STATS_RECONCILE_INTERVAL_MS, not at startup since it reads
+// every entry. STATS_RECONCILE_INTERVAL_MS=0 turns it off.
+export const startStatsReconcileSchedule = (): NodeJS.Timeout | null => {
+  if (STATS_RECONCILE_INTERVAL_MS <= 0) return null;
+
+  const timer = setInterval(() => {
+    reconcileEntryStats()
+      .catch(error => console.error('Stats reconcile error:', error));
+  }, STATS_RECONCILE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,49 @@
+import { PrismaClient, Entry } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Entries are versioned by their lastUpdated timestamp (epoch milliseconds)
+export const entryVersion = (entry: Pick<Entry, 'lastUpdated'>): string => String(entry.lastUpdated.getTime());
+
+export const entryETag = (entry: Pick<Entry, 'lastUpdated'>): string => `"${entryVersion(entry)}"`;
+
+export class VersionConflictError extends Error {
+  constructor() {
+    super('Entry has been changed since it was loaded');
+    this.name = 'VersionConflictError';
+  }
+}
+
+// The version an update was based on, from If-Match or a `version` body
+// field (ETag value, epoch milliseconds or ISO date). Returns null when the
+// client didn't send one (or sent If-Match: *), and NaN when it is invalid.
+export function parseExpectedVersion(ifMatch: string | undefined, bodyVersion: unknown): number | null {
+  const raw = ifMatch ?? (bodyVersion !== undefined && bodyVersion !== null ? String(bodyVersion) : undefined);
+  if (raw === undefined || raw.trim() === '*') return null;
+
+  const value = raw.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+
+  return Date.parse(value);
+}
+
+// Whether an If-None-Match header already names the entry's current version
+export function matchesETag(ifNoneMatch: string | undefined, entry: Pick<Entry, 'lastUpdated'>): boolean {
+  if (!ifNoneMatch) return false;
+  const etag = entryETag(entry);
+  return ifNoneMatch.split(',').some(tag => {
+    const value = tag.trim().replace(/^W\//, '');
+    return value === '*' || value === etag;
+  });
+}
+
+// The entry's text as of `version`. Every update records a revision in the
+// same transaction, so the first revision made at or after that moment holds
+// the text the client was looking at.
+export const findVersionSnapshot = async (entryId: string, version: number) => {
+  return prisma.entryRevision.findFirst({
+    where: { entryId, createdAt: { gte: new Date(version) } },
+    orderBy: { createdAt: 'asc' },
+    select: { title: true, synopsis: true, content: true }
+  });
+};
@@ -0,0 +1,232 @@
+import JSZip from 'jszip';
+import { marked, Marked } from 'marked';
+import { Entry } from '@prisma/client';
+import { toFrontMatter, slugify } from './markdown';
+
+export interface ExportableEntry extends Entry {
+  tags?: { tag: { name: string } }[];
+  notebook?: { name: string } | null;
+  sharedEntries?: { permission: string; sharedAt: Date; sharedWith: { email: string } }[];
+}
+
+export const EXPORT_FORMATS = {
+  md: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+  pdf: { contentType: 'application/pdf', extension: 'pdf' }
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function exportFileName(entry: Pick<Entry, 'id' | 'title'>, extension: string): string {
+  return `${slugify(entry.title)}-${entry.id.slice(0, 8)}.${extension}`;
+}
+
+export function entryToMarkdown(entry: ExportableEntry): string {
+  const frontMatter = toFrontMatter({
+    id: entry.id,
+    title: entry.title,
+    synopsis: entry.synopsis,
+    created: entry.dateCreated.toISOString(),
+    updated: entry.lastUpdated.toISOString(),
+    ...(entry.notebook && { notebook: entry.notebook.name }),
+    ...(entry.tags && { tags: entry.tags.map(({ tag }) => tag.name) }),
+    ...(entry.sharedEntries && {
+      sharedWith: entry.sharedEntries.map(share => ({
+        email: share.sharedWith.email,
+        permission: share.permission,
+        sharedAt: share.sharedAt.toISOString()
+      }))
+    })
+  });
+
+  return `${frontMatter}\n${entry.content.trimEnd()}\n`;
+}
+
+function htmlDocument(entry: ExportableEntry, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(entry.title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, Arial, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 20px; line-height: 1.6; color: #222; }
+  .synopsis { color: #555; font-style: italic; }
+  .meta { color: #888; font-size: 0.85em; border-bottom: 1px solid #eee; padding-bottom: 12px; margin-bottom: 24px; }
+  pre { background: #f5f5f5; padding: 12px; overflow-x: auto; }
+  code { background: #f5f5f5; padding: 2px 4px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(entry.title)}</h1>
+<p class="synopsis">${escapeHtml(entry.synopsis)}</p>
+<p class="meta">Created ${entry.dateCreated.toISOString()} &middot; Updated ${entry.lastUpdated.toISOString()}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+export function entryToHtml(entry: ExportableEntry): string {
+  return htmlDocument(entry, marked.parse(entry.content, { async: false }) as string);
+}
+
+// Links keep only web and mailto schemes; the result is escaped so entities
+// can't spell out another scheme once the browser decodes the attribute
+function safeUrl(href: string): string | null {
+  let url: string;
+  try {
+    url = encodeURI(href).replace(/%25/g, '%');
+  } catch {
+    return null;
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url) && !/^(https?|mailto):/i.test(url)) {
+    return null;
+  }
+
+  return escapeHtml(url);
+}
+
+// Markdown renderer for pages anyone with a share link can open. Raw HTML in
+// the note is shown as text rather than passed through.
+const publicMarked = new Marked({
+  renderer: {
+    html: (html: string) => escapeHtml(html),
+    link(href: string, title: string | null | undefined, text: string) {
+      const url = safeUrl(href);
+      if (!url) return text;
+      return `<a href="${url}"${title ? ` title="${title}"` : ''} rel="nofollow noopener noreferrer">${text}</a>`;
+    },
+    image(href: string, title: string | null, text: string) {
+      const url = safeUrl(href);
+      if (!url) return text;
+      return `<img src="${url}" alt="${text}"${title ? ` title="${title}"` : ''}>`;
+    }
+  }
+});
+
+export function entryToPublicHtml(entry: ExportableEntry): string {
+  return htmlDocument(entry, publicMarked.parse(entry.content, { async: false }) as string);
+}
+
+// Small standalone page for share links that can't be shown, optionally
+// with a password prompt that posts back to the same link
+export function sharedMessagePage(title: string, message: string, passwordForm = false): string {
+  const form = passwordForm
+    ? `<form method="post">
+<input type="password" name="password" placeholder="Password" autofocus required>
+<button type="submit">Open</button>
+</form>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, Arial, sans-serif; max-width: 420px; margin: 80px auto; padding: 0 20px; color: #222; }
+  input, button { font-size: 1em; padding: 6px 10px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(message)}</p>
+${form}
+</body>
+</html>
+`;
+}
+
+// Rendering a simple paginated A4 document with canvas' PDF backend.
+// canvas is loaded lazily so the other formats work without its native build.
+export const entryToPdf = async (entry: ExportableEntry): Promise<Buffer> => {
+  const { createCanvas } = await import('canvas');
+
+  const pageWidth = 595;
+  const pageHeight = 842;
+  const margin = 56;
+  const maxWidth = pageWidth - margin * 2;
+
+  const canvas = createCanvas(pageWidth, pageHeight, 'pdf');
+  const ctx = canvas.getContext('2d');
+  let y = margin;
+
+  const blocks: { text: string; font: string; lineHeight: number; color: string }[] = [
+    { text: entry.title, font: 'bold 22px Sans', lineHeight: 28, color: '#111111' },
+    { text: entry.synopsis, font: 'italic 12px Sans', lineHeight: 17, color: '#555555' },
+    { text: `Updated ${entry.lastUpdated.toISOString().slice(0, 10)}`, font: '10px Sans', lineHeight: 20, color: '#888888' }
+  ];
+
+  entry.content.split(/\r?\n/).forEach(line => {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const size = Math.max(13, 20 - heading[1].length * 2);
+      blocks.push({ text: heading[2], font: `bold ${size}px Sans`, lineHeight: size + 8, color: '#111111' });
+    } else if (/^```/.test(line)) {
+      return;
+    } else {
+      blocks.push({ text: line.replace(/\*\*|__|`/g, ''), font: '11px Sans', lineHeight: 16, color: '#222222' });
+    }
+  });
+
+  for (const block of blocks) {
+    ctx.font = block.font;
+    ctx.fillStyle = block.color;
+
+    // Word-wrapping each block to the printable width
+    const lines: string[] = [];
+    let current = '';
+    for (const word of block.text.split(/\s+/)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push(current);
+
+    for (const line of lines) {
+      if (y + block.lineHeight > pageHeight - margin) {
+        ctx.addPage();
+        ctx.font = block.font;
+        ctx.fillStyle = block.color;
+        y = margin;
+      }
+      ctx.fillText(line, margin, y + block.lineHeight * 0.75);
+      y += block.lineHeight;
+    }
+  }
+
+  return canvas.toBuffer('application/pdf');
+};
+
+// Full-account archive: one Markdown file with front-matter per entry
+export const buildAccountArchive = async (entries: ExportableEntry[], manifest: Record<string, unknown>): Promise<Buffer> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  entries.forEach(entry => {
+    let fileName = exportFileName(entry, 'md');
+    for (let i = 2; usedNames.has(fileName); i++) {
+      fileName = exportFileName(entry, `${i}.md`);
+    }
+    usedNames.add(fileName);
+
+    zip.file(`notes/${fileName}`, entryToMarkdown(entry), { date: entry.lastUpdated });
+  });
+
+  zip.file('manifest.json', JSON.stringify({ ...manifest, entryCount: entries.length }, null, 2));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
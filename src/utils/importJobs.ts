@@ -0,0 +1,125 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ImportedNote, ParsedImport } from './importers';
+import { recordRevision } from './revisions';
+import { applyTagsByName } from './tags';
+import { countWords, addEntryStats } from './entryStats';
+
+const prisma = new PrismaClient();
+
+// Imports with more notes than this run as a background job the client polls
+export const IMPORT_SYNC_LIMIT = parseInt(process.env.IMPORT_SYNC_LIMIT || '25', 10);
+
+const PROGRESS_INTERVAL = 10;
+
+export interface ImportResult {
+  source: string;
+  status: 'imported' | 'failed';
+  entryId?: string;
+  title?: string;
+  error?: string;
+}
+
+const importNote = async (userId: string, note: ImportedNote, notebookId?: string | null): Promise<ImportResult> => {
+  try {
+    const entry = await prisma.$transaction(async (tx) => {
+      const createdEntry = await tx.entry.create({
+        data: {
+          title: note.title,
+          synopsis: note.synopsis,
+          content: note.content,
+          wordCount: countWords(note.content),
+          userId,
+          notebookId: notebookId || null,
+          ...(note.createdAt && { dateCreated: note.createdAt })
+        }
+      });
+
+      await recordRevision(tx, createdEntry, userId);
+      await addEntryStats(tx, userId, [createdEntry]);
+      return createdEntry;
+    });
+
+    if (note.tags.length > 0) {
+      await applyTagsByName(userId, entry.id, note.tags);
+    }
+
+    return { source: note.source, status: 'imported', entryId: entry.id, title: entry.title };
+  } catch (error: any) {
+    console.error('Import note error:', error);
+    return { source: note.source, status: 'failed', title: note.title, error: 'Failed to save note' };
+  }
+};
+
+// Saving parsed notes one at a time so a bad note doesn't sink the whole import
+export const importNotes = async (
+  userId: string,
+  parsed: ParsedImport,
+  notebookId?: string | null,
+  onProgress?: (processed: number) => Promise<void>
+): Promise<ImportResult[]> => {
+  const results: ImportResult[] = parsed.failures.map(failure => ({
+    source: failure.source,
+    status: 'failed',
+    error: failure.error
+  }));
+
+  for (let i = 0; i < parsed.notes.length; i++) {
+    results.push(await importNote(userId, parsed.notes[i], notebookId));
+
+    if (onProgress && (i + 1) % PROGRESS_INTERVAL === 0) {
+      await onProgress(i + 1);
+    }
+  }
+
+  return results;
+};
+
+// Creating the job row and processing it after the response has been sent.
+// Jobs live in this process; one that is interrupted by a restart stays
+// PROCESSING and can simply be re-submitted.
+export const startImportJob = async (
+  userId: string,
+  parsed: ParsedImport,
+  notebookId?: string | null
+) => {
+  const job = await prisma.importJob.create({
+    data: {
+      userId,
+      totalItems: parsed.notes.length + parsed.failures.length
+    }
+  });
+
+  setImmediate(async () => {
+    try {
+      await prisma.importJob.update({
+        where: { id: job.id },
+        data: { status: 'PROCESSING' }
+      });
+
+      const results = await importNotes(userId, parsed, notebookId, async (processed) => {
+        await prisma.importJob.update({
+          where: { id: job.id },
+          data: { processedItems: processed + parsed.failures.length }
+        });
+      });
+
+      await prisma.importJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'COMPLETED',
+          processedItems: results.length,
+          results: results as unknown as Prisma.InputJsonValue,
+          completedAt: new Date()
+        }
+      });
+    } catch (error: any) {
+      console.error('Import job error:', error);
+      await prisma.importJob.update({
+        where: { id: job.id },
+        data: { status: 'FAILED', error: error.message || 'Import failed', completedAt: new Date() }
+      }).catch(updateError => console.error('Failed to mark import job as failed:', updateError));
+    }
+  });
+
+  return job;
+};
@@ -0,0 +1,321 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { parseFrontMatter, FrontMatterValue } from './markdown';
+
+export interface ImportedNote {
+  source: string;
+  title: string;
+  synopsis: string;
+  content: string;
+  createdAt?: Date;
+  tags: string[];
+}
+
+export interface ImportFailure {
+  source: string;
+  error: string;
+}
+
+export interface ParsedImport {
+  notes: ImportedNote[];
+  failures: ImportFailure[];
+}
+
+export interface UploadedFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.txt'];
+const SYNOPSIS_LENGTH = 200;
+
+// What one import may unpack from ZIPs, across all its uploads and any ZIP
+// inside them, so a small compressed bomb can't exhaust memory
+const IMPORT_MAX_UNZIPPED_BYTES = parseInt(process.env.IMPORT_MAX_UNZIPPED_BYTES || String(100 * 1024 * 1024), 10);
+const IMPORT_MAX_ZIP_FILES = parseInt(process.env.IMPORT_MAX_ZIP_FILES || '2000', 10);
+
+interface ZipBudget {
+  bytes: number;
+  files: number;
+}
+
+// Thrown when the budget runs out; ends the whole archive, not just one file
+class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipLimitError';
+  }
+}
+// Notion appends a 32 character hex id to every exported page name
+const NOTION_FILE_PATTERN = /^(.*?)\s+([0-9a-f]{32})$/i;
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function asString(value: FrontMatterValue | undefined): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return Array.isArray(value) || typeof value === 'object' ? undefined : String(value);
+}
+
+function asDate(value: FrontMatterValue | undefined): Date | undefined {
+  const text = asString(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function asStringList(value: FrontMatterValue | undefined): string[] {
+  if (Array.isArray(value)) return value.map(item => asString(item)).filter((item): item is string => Boolean(item));
+  const text = asString(value);
+  return text ? text.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+// First paragraph of plain text, used when a file doesn't state a synopsis
+function deriveSynopsis(content: string, fallback: string): string {
+  const paragraph = content
+    .split(/\r?\n\s*\r?\n/)
+    .map(block => block.replace(/^#{1,6}\s+/gm, '').replace(/[*_`>]/g, '').replace(/\s+/g, ' ').trim())
+    .find(block => block.length > 0);
+
+  if (!paragraph) return fallback;
+  return paragraph.length > SYNOPSIS_LENGTH ? `${paragraph.slice(0, SYNOPSIS_LENGTH - 3).trimEnd()}...` : paragraph;
+}
+
+// Markdown or plain text, with optional front-matter (our own exports use it)
+// and Notion's "Title <id>.md" naming plus property lines under the heading
+export function parseMarkdownNote(source: string, text: string): ImportedNote {
+  const { data, body } = parseFrontMatter(text.replace(/\r\n/g, '\n'));
+  let content = body.trim();
+
+  let fileTitle = path.basename(source, path.extname(source));
+  const notionMatch = fileTitle.match(NOTION_FILE_PATTERN);
+  if (notionMatch) fileTitle = notionMatch[1];
+
+  let title = asString(data.title);
+  const heading = content.match(/^#\s+(.+)\n?/);
+  if (heading && (!title || heading[1].trim() === title)) {
+    title = title || heading[1].trim();
+    content = content.slice(heading[0].length).trim();
+  }
+  title = title || fileTitle;
+
+  let createdAt = asDate(data.created) || asDate(data.date);
+  const tags = asStringList(data.tags);
+
+  if (notionMatch) {
+    // Notion database pages list their properties as "Key: Value" lines
+    const propertyBlock = content.match(/^((?:[\w ]+: .*\n?)+)\n*/);
+    if (propertyBlock) {
+      propertyBlock[1].trim().split('\n').forEach(line => {
+        const [key, ...rest] = line.split(': ');
+        const value = rest.join(': ').trim();
+        const normalizedKey = key.trim().toLowerCase();
+        if (normalizedKey === 'tags') tags.push(...asStringList(value));
+        if (normalizedKey === 'created' && !createdAt) createdAt = asDate(value);
+      });
+      content = content.slice(propertyBlock[0].length).trim();
+    }
+  }
+
+  if (!content) {
+    throw new Error('File has no content');
+  }
+
+  return {
+    source,
+    title: title.slice(0, 255),
+    synopsis: asString(data.synopsis) || asString(data.description) || deriveSynopsis(content, title),
+    content,
+    createdAt,
+    tags
+  };
+}
+
+// Evernote's ENML is XHTML; this keeps structure as Markdown and drops the rest
+function enmlToMarkdown(enml: string): string {
+  return decodeXmlEntities(
+    enml
+      .replace(/<\?xml[^>]*\?>/g, '')
+      .replace(/<!DOCTYPE[^>]*>/g, '')
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n${'#'.repeat(Number(level))} ${text}\n`)
+      .replace(/<en-todo[^>]*checked="true"[^>]*\/?>/gi, '[x] ')
+      .replace(/<en-todo[^>]*\/?>/gi, '[ ] ')
+      .replace(/<en-media[^>]*\/?>/gi, '[attachment]')
+      .replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)')
+      .replace(/<(b|strong)[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(i|em)[^>]*>([\s\S]*?)<\/\1>/gi, '*$2*')
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p|ul|ol|tr|table|blockquote)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function parseEnexDate(value?: string): Date | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+export function parseEnex(source: string, xml: string): ParsedImport {
+  const notes: ImportedNote[] = [];
+  const failures: ImportFailure[] = [];
+  const notePattern = /<note>([\s\S]*?)<\/note>/g;
+  let match: RegExpExecArray | null;
+  let index = 0;
+
+  while ((match = notePattern.exec(xml)) !== null) {
+    index++;
+    const noteXml = match[1];
+    const title = decodeXmlEntities(noteXml.match(/<title>([\s\S]*?)<\/title>/)?.[1]?.trim() || `Untitled note ${index}`);
+    const noteSource = `${source}#${index} (${title})`;
+
+    try {
+      const contentMatch = noteXml.match(/<content>\s*(?:<!\[CDATA\[([\s\S]*?)\]\]>|([\s\S]*?))\s*<\/content>/);
+      const rawContent = contentMatch?.[1] ?? decodeXmlEntities(contentMatch?.[2] ?? '');
+      const content = enmlToMarkdown(rawContent);
+
+      if (!content) {
+        throw new Error('Note has no content');
+      }
+
+      const tags: string[] = [];
+      const tagPattern = /<tag>([\s\S]*?)<\/tag>/g;
+      let tagMatch: RegExpExecArray | null;
+      while ((tagMatch = tagPattern.exec(noteXml)) !== null) {
+        tags.push(decodeXmlEntities(tagMatch[1].trim()));
+      }
+
+      notes.push({
+        source: noteSource,
+        title: title.slice(0, 255),
+        synopsis: deriveSynopsis(content, title),
+        content,
+        createdAt: parseEnexDate(noteXml.match(/<created>([\s\S]*?)<\/created>/)?.[1]?.trim()),
+        tags
+      });
+    } catch (error: any) {
+      failures.push({ source: noteSource, error: error.message || 'Failed to parse note' });
+    }
+  }
+
+  if (index === 0) {
+    failures.push({ source, error: 'No notes found in Evernote export' });
+  }
+
+  return { notes, failures };
+}
+
+// Size the archive claims for a file. JSZip keeps it on a private field;
+// it can lie, so reading also counts the bytes that actually come out.
+const declaredSize = (file: JSZip.JSZipObject): number =>
+  (file as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+
+// Inflating a file chunk by chunk, stopping as soon as it goes over budget
+const readZipFile = (file: JSZip.JSZipObject, budget: ZipBudget): Promise<Buffer> => {
+  if (declaredSize(file) > budget.bytes) {
+    return Promise.reject(new ZipLimitError('Archive is too large to import once unpacked'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = file.nodeStream('nodebuffer') as NodeJS.ReadableStream & { destroy(): void };
+
+    stream.on('data', (chunk: Buffer) => {
+      budget.bytes -= chunk.length;
+      if (budget.bytes < 0) {
+        stream.destroy();
+        reject(new ZipLimitError('Archive is too large to import once unpacked'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+};
+
+// Walking a ZIP of Markdown (our own export, Notion export or a plain folder).
+// Notion sometimes wraps its export in a second ZIP, so one level of nesting
+// is followed; it draws on the same budget as the outer archive.
+async function parseZip(source: string, buffer: Buffer, budget: ZipBudget, depth: number = 0): Promise<ParsedImport> {
+  const result: ParsedImport = { notes: [], failures: [] };
+  const zip = await JSZip.loadAsync(buffer);
+
+  const files = Object.values(zip.files).filter(file =>
+    !file.dir && !file.name.startsWith('__MACOSX/') && !path.basename(file.name).startsWith('.')
+  );
+
+  budget.files -= files.length;
+  if (budget.files < 0) {
+    throw new ZipLimitError(`Archives can hold at most ${IMPORT_MAX_ZIP_FILES} files`);
+  }
+
+  for (const file of files) {
+    const fileSource = `${source}/${file.name}`;
+    const extension = path.extname(file.name).toLowerCase();
+
+    try {
+      if (MARKDOWN_EXTENSIONS.includes(extension)) {
+        const note = parseMarkdownNote(file.name, (await readZipFile(file, budget)).toString('utf8'));
+        result.notes.push({ ...note, source: fileSource });
+      } else if (extension === '.enex') {
+        const parsed = parseEnex(fileSource, (await readZipFile(file, budget)).toString('utf8'));
+        result.notes.push(...parsed.notes);
+        result.failures.push(...parsed.failures);
+      } else if (extension === '.zip' && depth === 0) {
+        const parsed = await parseZip(fileSource, await readZipFile(file, budget), budget, depth + 1);
+        result.notes.push(...parsed.notes);
+        result.failures.push(...parsed.failures);
+      }
+    } catch (error: any) {
+      if (error instanceof ZipLimitError) throw error;
+      result.failures.push({ source: fileSource, error: error.message || 'Failed to parse file' });
+    }
+  }
+
+  return result;
+}
+
+// Turning uploaded files into notes; unsupported or broken files are reported, not thrown
+export const parseUploads = async (files: UploadedFile[]): Promise<ParsedImport> => {
+  const result: ParsedImport = { notes: [], failures: [] };
+  const budget: ZipBudget = { bytes: IMPORT_MAX_UNZIPPED_BYTES, files: IMPORT_MAX_ZIP_FILES };
+
+  for (const file of files) {
+    const extension = path.extname(file.originalname).toLowerCase();
+
+    try {
+      if (MARKDOWN_EXTENSIONS.includes(extension)) {
+        result.notes.push(parseMarkdownNote(file.originalname, file.buffer.toString('utf8')));
+      } else if (extension === '.enex') {
+        const parsed = parseEnex(file.originalname, file.buffer.toString('utf8'));
+        result.notes.push(...parsed.notes);
+        result.failures.push(...parsed.failures);
+      } else if (extension === '.zip') {
+        const parsed = await parseZip(file.originalname, file.buffer, budget);
+        result.notes.push(...parsed.notes);
+        result.failures.push(...parsed.failures);
+      } else {
+        result.failures.push({ source: file.originalname, error: 'Unsupported file type' });
+      }
+    } catch (error: any) {
+      result.failures.push({ source: file.originalname, error: error.message || 'Failed to parse file' });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = process.env.MAIL_FROM || 'Notely <no-reply@notely.app>';
+
+// Sending through a real SMTP server
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: DEFAULT_FROM, ...message });
+  }
+}
+
+// Writing each message to a JSON file, handy for local development and tests
+export class FileMailer implements Mailer {
+  constructor(private outputDir: string = process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'tmp', 'mail')) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@.]/gi, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.outputDir, fileName),
+      JSON.stringify({ from: DEFAULT_FROM, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+// Printing messages to the console. Bodies carry reset and verification
+// links, so in production only the recipient and subject are printed.
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    const body = process.env.NODE_ENV === 'production'
+      ? '[mail] Body hidden in production; set MAIL_TRANSPORT=smtp to deliver it'
+      : message.text;
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${body}`);
+  }
+}
+
+let mailer: Mailer | null = null;
+
+// MAIL_TRANSPORT picks the adapter: smtp | file | console.
+// Defaults to smtp when SMTP_HOST is set, console otherwise.
+export function getMailer(): Mailer {
+  if (mailer) return mailer;
+
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (transport) {
+    case 'smtp':
+      mailer = new SmtpMailer();
+      break;
+    case 'file':
+      mailer = new FileMailer();
+      break;
+    default:
+      mailer = new ConsoleMailer();
+  }
+  return mailer;
+}
+
+// Allowing tests to swap in their own adapter
+export function setMailer(customMailer: Mailer | null): void {
+  mailer = customMailer;
+}
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailer().send(message);
+};
@@ -0,0 +1,107 @@
+export type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | { [key: string]: FrontMatterValue };
+
+function formatScalar(value: string | number | boolean | null): string {
+  if (value === null) return 'null';
+  if (typeof value !== 'string') return String(value);
+  // JSON strings are valid double-quoted YAML scalars
+  return JSON.stringify(value);
+}
+
+function formatValue(value: FrontMatterValue, indent: string): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return ' []';
+    return value.map(item => {
+      if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+        const [first, ...rest] = Object.entries(item);
+        const lines = [`\n${indent}- ${first[0]}:${formatValue(first[1], `${indent}    `)}`];
+        rest.forEach(([key, nested]) => lines.push(`\n${indent}  ${key}:${formatValue(nested, `${indent}    `)}`));
+        return lines.join('');
+      }
+      return `\n${indent}-${formatValue(item, `${indent}  `)}`;
+    }).join('');
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, nested]) => `\n${indent}${key}:${formatValue(nested, `${indent}  `)}`)
+      .join('');
+  }
+  return ` ${formatScalar(value)}`;
+}
+
+// Serializing metadata as a YAML front-matter block
+export function toFrontMatter(data: Record<string, FrontMatterValue>): string {
+  const body = Object.entries(data)
+    .map(([key, value]) => `${key}:${formatValue(value, '  ')}`)
+    .join('\n');
+
+  return `---\n${body}\n---\n`;
+}
+
+export function slugify(text: string, maxLength: number = 60): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '');
+
+  return slug || 'untitled';
+}
+
+function parseScalar(raw: string): FrontMatterValue {
+  const value = raw.trim();
+  if (value === '' || value === 'null' || value === '~') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map(item => parseScalar(item)).filter(item => item !== null);
+  }
+  return value;
+}
+
+// Reading a leading YAML front-matter block. Only the subset we write
+// ourselves (and most tools emit) is understood: scalars, inline lists and
+// "- item" lists. Anything more nested is skipped.
+export function parseFrontMatter(text: string): { data: Record<string, FrontMatterValue>; body: string } {
+  const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, FrontMatterValue> = {};
+  let currentListKey: string | null = null;
+
+  match[1].split(/\r?\n/).forEach(line => {
+    const listItem = line.match(/^\s+-\s+(.*)$/);
+    if (listItem && currentListKey) {
+      // List items that are themselves objects are not supported
+      if (!/^[\w-]+:\s/.test(listItem[1])) {
+        (data[currentListKey] as FrontMatterValue[]).push(parseScalar(listItem[1]));
+      }
+      return;
+    }
+
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) return;
+
+    if (pair[2].trim() === '') {
+      data[pair[1]] = [];
+      currentListKey = pair[1];
+    } else {
+      data[pair[1]] = parseScalar(pair[2]);
+      currentListKey = null;
+    }
+  });
+
+  return { data, body: text.slice(match[0].length) };
+}
@@ -0,0 +1,118 @@
+import { diffLines } from './revisions';
+
+export interface MergeResult {
+  text: string;
+  conflicts: number;
+}
+
+export interface EntryFields {
+  title: string;
+  synopsis: string;
+  content: string;
+}
+
+export interface EntryMerge extends EntryFields {
+  // Fields where both sides changed the same text differently
+  conflicts: Array<keyof EntryFields>;
+  hasConflicts: boolean;
+}
+
+// For every base line kept in `other`, the index it ended up at
+function matchLines(base: string, other: string): Map<number, number> {
+  const matches = new Map<number, number>();
+  let baseIndex = 0;
+  let otherIndex = 0;
+
+  diffLines(base, other).forEach(line => {
+    if (line.type === 'equal') {
+      matches.set(baseIndex++, otherIndex++);
+    } else if (line.type === 'removed') {
+      baseIndex++;
+    } else {
+      otherIndex++;
+    }
+  });
+
+  return matches;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+// Line-based three-way merge. Changes made on only one side are applied;
+// overlapping changes are kept side by side between conflict markers.
+export function mergeText(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = base.split(/\r?\n/);
+  const mineLines = mine.split(/\r?\n/);
+  const theirLines = theirs.split(/\r?\n/);
+  const mineMatches = matchLines(base, mine);
+  const theirMatches = matchLines(base, theirs);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let m = 0;
+  let t = 0;
+
+  while (b <= baseLines.length) {
+    // Next base line both sides kept, where they agree again
+    let stable = b;
+    while (
+      stable < baseLines.length &&
+      !(mineMatches.has(stable) && theirMatches.has(stable) &&
+        mineMatches.get(stable)! >= m && theirMatches.get(stable)! >= t)
+    ) {
+      stable++;
+    }
+
+    const mineEnd = stable < baseLines.length ? mineMatches.get(stable)! : mineLines.length;
+    const theirEnd = stable < baseLines.length ? theirMatches.get(stable)! : theirLines.length;
+
+    const baseChunk = baseLines.slice(b, stable);
+    const mineChunk = mineLines.slice(m, mineEnd);
+    const theirChunk = theirLines.slice(t, theirEnd);
+
+    if (sameLines(mineChunk, baseChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk) || sameLines(mineChunk, theirChunk)) {
+      output.push(...mineChunk);
+    } else {
+      conflicts++;
+      output.push('<<<<<<< yours', ...mineChunk, '=======', ...theirChunk, '>>>>>>> current');
+    }
+
+    if (stable >= baseLines.length) break;
+
+    output.push(baseLines[stable]);
+    b = stable + 1;
+    m = mineEnd + 1;
+    t = theirEnd + 1;
+  }
+
+  return { text: output.join('\n'), conflicts };
+}
+
+// Merging a stale update into the current entry. Title and synopsis are
+// merged as whole values; on a conflict the current value is kept.
+export function mergeEntry(base: EntryFields, mine: Partial<EntryFields>, current: EntryFields): EntryMerge {
+  const conflicts: Array<keyof EntryFields> = [];
+  const merged = { ...current };
+
+  (['title', 'synopsis'] as const).forEach(field => {
+    const value = mine[field];
+    if (value === undefined || value === base[field] || value === current[field]) return;
+
+    if (current[field] === base[field]) {
+      merged[field] = value;
+    } else {
+      conflicts.push(field);
+    }
+  });
+
+  if (mine.content !== undefined) {
+    const result = mergeText(base.content, mine.content, current.content);
+    merged.content = result.text;
+    if (result.conflicts > 0) conflicts.push('content');
+  }
+
+  return { ...merged, conflicts, hasConflicts: conflicts.length > 0 };
+}
@@ -0,0 +1,252 @@
+import { diffSequences } from './diff';
+
+// Operational transformation for plain text, used by real-time collaborative
+// editing. An operation walks the document from the start:
+//   number        keep that many characters
+//   string        insert the text
+//   { d: number } delete that many characters
+// Anything after the last component is kept unchanged.
+export type TextOpComponent = number | string | { d: number };
+export type TextOp = TextOpComponent[];
+
+function componentLength(component: TextOpComponent): number {
+  if (typeof component === 'number') return component;
+  if (typeof component === 'string') return component.length;
+  return component.d;
+}
+
+function isEmpty(component: TextOpComponent): boolean {
+  return componentLength(component) === 0;
+}
+
+function append(op: TextOp, component: TextOpComponent): void {
+  if (isEmpty(component)) return;
+
+  const last = op[op.length - 1];
+  if (last !== undefined && typeof last === typeof component) {
+    if (typeof last === 'number') {
+      op[op.length - 1] = last + (component as number);
+      return;
+    }
+    if (typeof last === 'string') {
+      op[op.length - 1] = last + (component as string);
+      return;
+    }
+    op[op.length - 1] = { d: last.d + (component as { d: number }).d };
+    return;
+  }
+
+  op.push(component);
+}
+
+// Trailing retains are implied
+function trim(op: TextOp): TextOp {
+  if (op.length > 0 && typeof op[op.length - 1] === 'number') {
+    op.pop();
+  }
+  return op;
+}
+
+export function normalize(op: TextOp): TextOp {
+  const result: TextOp = [];
+  op.forEach(component => append(result, component));
+  return trim(result);
+}
+
+export function isValidOp(op: unknown): op is TextOp {
+  return Array.isArray(op) && op.every(component =>
+    (typeof component === 'number' && Number.isInteger(component) && component > 0) ||
+    (typeof component === 'string' && component.length > 0) ||
+    (typeof component === 'object' && component !== null &&
+      Number.isInteger((component as { d: unknown }).d) && (component as { d: number }).d > 0)
+  );
+}
+
+export function apply(text: string, op: TextOp): string {
+  let position = 0;
+  let result = '';
+
+  for (const component of op) {
+    if (typeof component === 'number') {
+      if (position + component > text.length) throw new Error('Operation retains past the end of the document');
+      result += text.slice(position, position + component);
+      position += component;
+    } else if (typeof component === 'string') {
+      result += component;
+    } else {
+      if (position + component.d > text.length) throw new Error('Operation deletes past the end of the document');
+      position += component.d;
+    }
+  }
+
+  return result + text.slice(position);
+}
+
+// Reads an operation piece by piece. Inserts are never split when the caller
+// asks for them whole, since another operation can't land inside one.
+function makeTake(op: TextOp) {
+  let index = 0;
+  let offset = 0;
+
+  const take = (length: number, keepInsertsWhole: boolean): TextOpComponent | null => {
+    if (index === op.length) {
+      return length === -1 ? null : length;
+    }
+
+    const component = op[index];
+
+    if (typeof component === 'number') {
+      if (length === -1 || component - offset <= length) {
+        const part = component - offset;
+        index++;
+        offset = 0;
+        return part;
+      }
+      offset += length;
+      return length;
+    }
+
+    if (typeof component === 'string') {
+      if (length === -1 || keepInsertsWhole || component.length - offset <= length) {
+        const part = component.slice(offset);
+        index++;
+        offset = 0;
+        return part;
+      }
+      const part = component.slice(offset, offset + length);
+      offset += length;
+      return part;
+    }
+
+    if (length === -1 || component.d - offset <= length) {
+      const part = { d: component.d - offset };
+      index++;
+      offset = 0;
+      return part;
+    }
+    offset += length;
+    return { d: length };
+  };
+
+  const peek = (): TextOpComponent | undefined => op[index];
+
+  return { take, peek };
+}
+
+// Rewriting `op` so it applies after `other`, when both were made against the
+// same document. When both insert at the same place, `side` decides whose
+// text comes first: 'left' puts op's insert before other's.
+export function transform(op: TextOp, other: TextOp, side: 'left' | 'right'): TextOp {
+  const result: TextOp = [];
+  const { take, peek } = makeTake(op);
+
+  for (const component of other) {
+    if (typeof component === 'number') {
+      let length = component;
+      while (length > 0) {
+        const chunk = take(length, true)!;
+        append(result, chunk);
+        if (typeof chunk !== 'string') length -= componentLength(chunk);
+      }
+    } else if (typeof component === 'string') {
+      if (side === 'left' && typeof peek() === 'string') {
+        append(result, take(-1, true)!);
+      }
+      append(result, component.length);
+    } else {
+      let length = component.d;
+      while (length > 0) {
+        const chunk = take(length, true)!;
+        if (typeof chunk === 'number') {
+          length -= chunk;
+        } else if (typeof chunk === 'string') {
+          append(result, chunk);
+        } else {
+          length -= chunk.d;
+        }
+      }
+    }
+  }
+
+  let rest: TextOpComponent | null;
+  while ((rest = take(-1, true)) !== null) {
+    append(result, rest);
+  }
+
+  return trim(result);
+}
+
+// Where a cursor ends up once an operation has been applied
+export function transformPosition(position: number, op: TextOp): number {
+  let cursor = position;
+  let offset = 0;
+
+  for (const component of op) {
+    if (cursor <= offset) break;
+
+    if (typeof component === 'number') {
+      if (cursor <= offset + component) return cursor;
+      offset += component;
+    } else if (typeof component === 'string') {
+      offset += component.length;
+      cursor += component.length;
+    } else {
+      cursor -= Math.min(component.d, cursor - offset);
+    }
+  }
+
+  return cursor;
+}
+
+// Character diffs are only worked out for modest changes; anything bigger
+// becomes one replacement of the changed span
+const MAX_DIFF_SPAN = 20000;
+const MAX_DIFF_EDITS = 1000;
+
+// An operation that turns `oldText` into `newText`. Used for changes made
+// outside an editing session, which arrive as whole texts.
+export function diffToOp(oldText: string, newText: string): TextOp {
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const removed = oldText.slice(prefix, oldText.length - suffix);
+  const added = newText.slice(prefix, newText.length - suffix);
+  const op: TextOp = [prefix];
+
+  // UTF-16 units, the same positions operations count in
+  const removedUnits = removed.split('');
+  const addedUnits = added.split('');
+  const steps = removed.length + added.length <= MAX_DIFF_SPAN
+    ? diffSequences(removedUnits, addedUnits, MAX_DIFF_EDITS)
+    : null;
+
+  if (!steps) {
+    op.push({ d: removed.length }, added);
+    return normalize(op);
+  }
+
+  let j = 0;
+  steps.forEach(step => {
+    if (step === 'equal') {
+      op.push(1);
+      j++;
+    } else if (step === 'removed') {
+      op.push({ d: 1 });
+    } else {
+      op.push(addedUnits[j++]);
+    }
+  });
+
+  return normalize(op);
+}
@@ -0,0 +1,125 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { query } from 'express-validator';
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+const SORT_FIELDS = {
+  created: 'dateCreated',
+  updated: 'lastUpdated',
+  title: 'title'
+} as const;
+
+type SortKey = keyof typeof SORT_FIELDS;
+
+const SELECTABLE_FIELDS = [
+  'id', 'title', 'synopsis', 'content', 'wordCount', 'isDeleted', 'deletedAt', 'dateCreated', 'lastUpdated', 'userId', 'notebookId', 'tags'
+] as const;
+
+type SelectableField = typeof SELECTABLE_FIELDS[number];
+
+export interface EntryListOptions {
+  sort: SortKey;
+  order: Prisma.SortOrder;
+  // null when the caller didn't ask for pages
+  limit: number | null;
+  cursor?: string;
+  fields: SelectableField[];
+}
+
+// Shared query validation for the entry listing endpoints. Each parameter
+// may be given once; a repeated one arrives as an array and is refused.
+export const entryListValidation = [
+  query('sort').optional().isString().withMessage('Sort must be given once').bail().isIn(Object.keys(SORT_FIELDS)).withMessage('Sort must be created, updated or title'),
+  query('order').optional().isString().withMessage('Order must be given once').bail().isIn(['asc', 'desc']).withMessage('Order must be asc or desc'),
+  query('limit').optional().isString().withMessage('Limit must be given once').bail().isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+  query('cursor').optional().isString().withMessage('Cursor must be given once').bail().notEmpty().withMessage('Cursor cannot be empty'),
+  query('fields').optional().isString().withMessage('Fields must be given once').bail().custom((value: string) => {
+    if (value === 'summary' || value === 'full') return true;
+    const invalid = value.split(',').map(field => field.trim()).filter(field => !SELECTABLE_FIELDS.includes(field as SelectableField));
+    if (invalid.length > 0) {
+      throw new Error(`Unknown fields: ${invalid.join(', ')}`);
+    }
+    return true;
+  })
+];
+
+export function parseEntryListOptions(queryParams: Record<string, any>): EntryListOptions {
+  const sort: SortKey = (queryParams.sort as SortKey) || 'updated';
+  // Titles read naturally A-Z, dates newest first
+  const order: Prisma.SortOrder = queryParams.order || (sort === 'title' ? 'asc' : 'desc');
+  // Without limit or cursor the whole list is returned, as before pagination
+  // existed; a cursor alone gets the default page size
+  const limit = queryParams.limit
+    ? parseInt(queryParams.limit, 10)
+    : queryParams.cursor ? DEFAULT_PAGE_SIZE : null;
+
+  let fields: SelectableField[];
+  if (!queryParams.fields || queryParams.fields === 'full') {
+    fields = [...SELECTABLE_FIELDS];
+  } else if (queryParams.fields === 'summary') {
+    fields = SELECTABLE_FIELDS.filter(field => field !== 'content');
+  } else {
+    fields = (queryParams.fields as string).split(',').map(field => field.trim() as SelectableField);
+  }
+
+  return {
+    sort,
+    order,
+    limit,
+    cursor: queryParams.cursor ? decodeCursor(queryParams.cursor) : undefined,
+    fields
+  };
+}
+
+export function encodeCursor(id: string): string {
+  return Buffer.from(id).toString('base64url');
+}
+
+function decodeCursor(cursor: string): string {
+  return Buffer.from(cursor, 'base64url').toString('utf8');
+}
+
+// Fetching one page of entries plus the total matching count.
+// Ties on the sort field are broken by id so pages never overlap.
+export const findEntryPage = async (where: Prisma.EntryWhereInput, options: EntryListOptions) => {
+  const select: Prisma.EntrySelect = { id: true };
+  options.fields.forEach(field => {
+    if (field === 'tags') {
+      select.tags = { include: { tag: true } };
+    } else {
+      select[field] = true;
+    }
+  });
+
+  const [rows, total] = await Promise.all([
+    prisma.entry.findMany({
+      where,
+      select,
+      orderBy: [
+        { [SORT_FIELDS[options.sort]]: options.order },
+        { id: options.order }
+      ],
+      ...(options.limit !== null && { take: options.limit + 1 }),
+      ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+    }),
+    prisma.entry.count({ where })
+  ]);
+
+  const hasMore = options.limit !== null && rows.length > options.limit;
+  const entries = hasMore ? rows.slice(0, options.limit!) : rows;
+
+  return {
+    entries,
+    pagination: {
+      total,
+      limit: options.limit,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(entries[entries.length - 1].id) : null,
+      sort: options.sort,
+      order: options.order
+    }
+  };
+};
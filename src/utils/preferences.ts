@@ -0,0 +1,108 @@
+import { Prisma } from '@prisma/client';
+import { body } from 'express-validator';
+import { isValidTimeZone } from './timezone';
+
+export const THEMES = ['light', 'dark', 'system'] as const;
+export const SORT_OPTIONS = ['created', 'updated', 'title'] as const;
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+export const EDITOR_MODES = ['rich', 'markdown'] as const;
+
+export interface UserPreferences {
+  theme: typeof THEMES[number];
+  defaultSort: typeof SORT_OPTIONS[number];
+  defaultSortOrder: typeof SORT_ORDERS[number];
+  defaultTemplateId: string | null;
+  defaultNotebookId: string | null;
+  // BCP 47 language tag used for dates and numbers, e.g. "en-GB"
+  locale: string;
+  editorMode: typeof EDITOR_MODES[number];
+  editorFontSize: number;
+  // 0 = Sunday, 1 = Monday
+  weekStartsOn: 0 | 1;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'system',
+  defaultSort: 'updated',
+  defaultSortOrder: 'desc',
+  defaultTemplateId: null,
+  defaultNotebookId: null,
+  locale: 'en-US',
+  editorMode: 'rich',
+  editorFontSize: 16,
+  weekStartsOn: 0
+};
+
+export const PREFERENCE_KEYS = Object.keys(DEFAULT_PREFERENCES) as (keyof UserPreferences)[];
+
+function isValidLocale(value: unknown): boolean {
+  if (typeof value !== 'string' || value.length === 0) return false;
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+// Per-field checks, shared by request validation and reading stored values
+const isValid: { [K in keyof UserPreferences]: (value: unknown) => boolean } = {
+  theme: value => THEMES.includes(value as UserPreferences['theme']),
+  defaultSort: value => SORT_OPTIONS.includes(value as UserPreferences['defaultSort']),
+  defaultSortOrder: value => SORT_ORDERS.includes(value as UserPreferences['defaultSortOrder']),
+  defaultTemplateId: value => value === null || typeof value === 'string',
+  defaultNotebookId: value => value === null || typeof value === 'string',
+  locale: isValidLocale,
+  editorMode: value => EDITOR_MODES.includes(value as UserPreferences['editorMode']),
+  editorFontSize: value => Number.isInteger(value) && (value as number) >= 10 && (value as number) <= 32,
+  weekStartsOn: value => value === 0 || value === 1
+};
+
+// Copying the known, valid fields of `source` over `base`
+function applyPreferences(base: UserPreferences, source: Record<string, unknown>): UserPreferences {
+  const result: Record<string, unknown> = { ...base };
+
+  PREFERENCE_KEYS.forEach(key => {
+    const value = source[key];
+    if (value !== undefined && isValid[key](value)) {
+      result[key] = value;
+    }
+  });
+
+  return result as unknown as UserPreferences;
+}
+
+// Stored preferences on top of the defaults. Unknown keys and values that no
+// longer validate are dropped, so older rows always read back cleanly.
+export function resolvePreferences(stored: Prisma.JsonValue | null): UserPreferences {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return { ...DEFAULT_PREFERENCES };
+  }
+  return applyPreferences(DEFAULT_PREFERENCES, stored);
+}
+
+export function updatePreferences(stored: Prisma.JsonValue | null, changes: Record<string, unknown>): UserPreferences {
+  return applyPreferences(resolvePreferences(stored), changes);
+}
+
+export const preferenceValidation = [
+  body().custom(value => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('Preferences must be an object');
+    }
+    const unknown = Object.keys(value).filter(key => key !== 'timezone' && !PREFERENCE_KEYS.includes(key as keyof UserPreferences));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown preferences: ${unknown.join(', ')}`);
+    }
+    return true;
+  }),
+  body('theme').optional().isIn(THEMES).withMessage(`Theme must be one of ${THEMES.join(', ')}`),
+  body('defaultSort').optional().isIn(SORT_OPTIONS).withMessage('Default sort must be created, updated or title'),
+  body('defaultSortOrder').optional().isIn(SORT_ORDERS).withMessage('Default sort order must be asc or desc'),
+  body('defaultTemplateId').optional({ values: 'null' }).isUUID().withMessage('Valid template ID is required'),
+  body('defaultNotebookId').optional({ values: 'null' }).isUUID().withMessage('Valid notebook ID is required'),
+  body('locale').optional().custom(isValidLocale).withMessage('Locale must be a language tag such as en-US'),
+  body('editorMode').optional().isIn(EDITOR_MODES).withMessage('Editor mode must be rich or markdown'),
+  body('editorFontSize').optional().custom(isValid.editorFontSize).withMessage('Editor font size must be a whole number between 10 and 32'),
+  body('weekStartsOn').optional().custom(isValid.weekStartsOn).withMessage('weekStartsOn must be 0 (Sunday) or 1 (Monday)'),
+  body('timezone').optional().custom(isValidTimeZone).withMessage('Timezone must be an IANA name such as Europe/Berlin')
+];
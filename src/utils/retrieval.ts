@@ -0,0 +1,120 @@
+import { PrismaClient } from '@prisma/client';
+import { buildTsQuery, searchEntries } from './search';
+import { ChatPassage } from './ai';
+
+const prisma = new PrismaClient();
+
+const PASSAGE_LENGTH = 800;
+const CANDIDATE_ENTRIES = 10;
+const MAX_PASSAGES_PER_ENTRY = 2;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'how',
+  'did', 'does', 'have', 'has', 'had', 'with', 'about', 'from', 'that', 'this', 'these', 'those',
+  'there', 'their', 'into', 'your', 'you', 'can', 'could', 'should', 'would', 'will', 'any', 'all',
+  'not', 'but', 'its', 'our', 'out', 'tell', 'say', 'said', 'notes', 'note', 'my'
+]);
+
+export interface RetrievedPassage extends ChatPassage {
+  score: number;
+}
+
+export function queryTerms(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => (word.length > 2 || /\d/.test(word)) && !STOP_WORDS.has(word));
+
+  return Array.from(new Set(words));
+}
+
+// Splitting content into paragraph-sized passages, merging short paragraphs
+// and breaking long ones on sentence boundaries
+export function splitPassages(content: string, maxLength: number = PASSAGE_LENGTH): string[] {
+  const pieces: string[] = [];
+
+  content
+    .split(/\r?\n\s*\r?\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .forEach(block => {
+      if (block.length <= maxLength) {
+        pieces.push(block);
+        return;
+      }
+
+      let current = '';
+      (block.match(/[^.!?]+[.!?]*\s*/g) || [block]).forEach(sentence => {
+        if (current && current.length + sentence.length > maxLength) {
+          pieces.push(current.trim());
+          current = '';
+        }
+        current += sentence;
+      });
+      if (current.trim()) pieces.push(current.trim());
+    });
+
+  const passages: string[] = [];
+  pieces.forEach(piece => {
+    const last = passages[passages.length - 1];
+    if (last && last.length + piece.length + 2 <= maxLength / 2) {
+      passages[passages.length - 1] = `${last}\n\n${piece}`;
+    } else {
+      passages.push(piece);
+    }
+  });
+
+  return passages;
+}
+
+// Share of the query terms a passage mentions. Terms are compared by prefix
+// so "budgets" and "budgeting" both count for "budget".
+function scorePassage(passage: string, terms: string[]): number {
+  const text = passage.toLowerCase();
+  const matched = terms.filter(term => text.includes(term.length > 5 ? term.slice(0, term.length - 2) : term));
+  return terms.length > 0 ? matched.length / terms.length : 0;
+}
+
+// Finding the passages most relevant to a question across the user's own
+// non-deleted entries and entries shared with them. Candidate entries come
+// from the full-text index; their passages are then ranked individually.
+export const retrievePassages = async (
+  userId: string,
+  question: string,
+  limit: number = 6
+): Promise<RetrievedPassage[]> => {
+  const terms = queryTerms(question);
+  const tsQuery = buildTsQuery(terms.join(' OR '));
+  if (!tsQuery) return [];
+
+  const { results } = await searchEntries({ userId, scope: 'all', limit: CANDIDATE_ENTRIES }, tsQuery);
+  if (results.length === 0) return [];
+
+  const entries = await prisma.entry.findMany({
+    where: { id: { in: results.map(result => result.id) } },
+    select: { id: true, title: true, synopsis: true, content: true }
+  });
+
+  const entryRank = new Map(results.map(result => [result.id, result.rank]));
+  const topRank = Math.max(...results.map(result => result.rank), Number.EPSILON);
+
+  const passages: RetrievedPassage[] = [];
+  entries.forEach(entry => {
+    const rank = (entryRank.get(entry.id) ?? 0) / topRank;
+
+    splitPassages(`${entry.synopsis}\n\n${entry.content}`)
+      .map(text => ({ text, termScore: scorePassage(`${entry.title} ${text}`, terms) }))
+      .filter(({ termScore }) => termScore > 0)
+      .map(({ text, termScore }) => ({
+        entryId: entry.id,
+        title: entry.title,
+        text,
+        score: termScore + rank * 0.25
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_PASSAGES_PER_ENTRY)
+      .forEach(passage => passages.push(passage));
+  });
+
+  return passages.sort((a, b) => b.score - a.score).slice(0, limit);
+};
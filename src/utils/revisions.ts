@@ -0,0 +1,98 @@
+import { Prisma, Entry } from '@prisma/client';
+import { diffSequences } from './diff';
+import { lockEntry } from './entryAccess';
+
+const MAX_DIFF_EDITS = 2000;
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  line: string;
+}
+
+// Snapshotting the current state of an entry as its next revision.
+// Revision numbers are read and then incremented, so the entry row is locked
+// until the caller's transaction ends.
+export const recordRevision = async (
+  tx: Prisma.TransactionClient,
+  entry: Pick<Entry, 'id' | 'title' | 'synopsis' | 'content'>,
+  authorId: string
+) => {
+  await lockEntry(tx, entry.id);
+
+  const latest = await tx.entryRevision.findFirst({
+    where: { entryId: entry.id },
+    orderBy: { revisionNumber: 'desc' },
+    select: { revisionNumber: true }
+  });
+
+  return tx.entryRevision.create({
+    data: {
+      entryId: entry.id,
+      revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+      title: entry.title,
+      synopsis: entry.synopsis,
+      content: entry.content,
+      authorId
+    }
+  });
+};
+
+// Entries created before revisions existed have no history yet, so their
+// current text is recorded (attributed to the owner) before it gets overwritten
+export const ensureBaselineRevision = async (
+  tx: Prisma.TransactionClient,
+  entry: Pick<Entry, 'id' | 'title' | 'synopsis' | 'content' | 'userId'>
+): Promise<void> => {
+  await lockEntry(tx, entry.id);
+
+  const count = await tx.entryRevision.count({
+    where: { entryId: entry.id }
+  });
+
+  if (count === 0) {
+    await recordRevision(tx, entry, entry.userId);
+  }
+};
+
+// Line-level diff of both texts. Texts that differ in more than
+// MAX_DIFF_EDITS lines are shown as the old lines removed and the new ones
+// added, which keeps very different versions cheap to compare.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split(/\r?\n/);
+  const newLines = newText.split(/\r?\n/);
+
+  // Unchanged leading and trailing lines are kept out of the diff
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const steps = diffSequences(a, b, MAX_DIFF_EDITS)
+    ?? [...a.map(() => 'removed' as const), ...b.map(() => 'added' as const)];
+
+  const result: DiffLine[] = oldLines.slice(0, prefix).map(line => ({ type: 'equal' as const, line }));
+  let i = 0;
+  let j = 0;
+  steps.forEach(type => {
+    if (type === 'added') {
+      result.push({ type, line: b[j++] });
+    } else {
+      result.push({ type, line: a[i++] });
+      if (type === 'equal') j++;
+    }
+  });
+
+  oldLines.slice(oldLines.length - suffix).forEach(line => result.push({ type: 'equal', line }));
+
+  return result;
+}
@@ -0,0 +1,181 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type SearchScope = 'mine' | 'shared' | 'all';
+export type SearchTrash = 'exclude' | 'include' | 'only';
+
+export interface SearchOptions {
+  userId: string;
+  scope?: SearchScope;
+  trash?: SearchTrash;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  synopsis: string;
+  isDeleted: boolean;
+  dateCreated: Date;
+  lastUpdated: Date;
+  userId: string;
+  rank: number;
+  // Safe HTML: the entry text is escaped and matches are wrapped in <mark>
+  titleHighlight: string;
+  snippet: string;
+}
+
+// ts_headline marks matches with these control characters rather than HTML.
+// They are stripped from the text beforehand, then the result is escaped and
+// the markers turned into <mark> tags.
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+const TITLE_HEADLINE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_END}", HighlightAll=true`;
+const HEADLINE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_END}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" ... "`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const highlightHtml = (headline: string): string =>
+  escapeHtml(headline)
+    .split(MATCH_START).join('<mark>')
+    .split(MATCH_END).join('</mark>');
+
+// Turning user input into a to_tsquery expression. Supports "quoted phrases",
+// prefix* terms, -negation and OR. Everything except letters and digits is
+// stripped so user input can never produce a tsquery syntax error.
+export function buildTsQuery(input: string): string | null {
+  const parts: string[] = [];
+  let nextOperator = '&';
+  const tokenPattern = /(-?)"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(input)) !== null) {
+    let negate = match[1] === '-';
+    let isPrefix = false;
+    let raw: string;
+
+    if (match[2] !== undefined) {
+      raw = match[2];
+    } else {
+      raw = match[3];
+      if (raw === 'OR') {
+        nextOperator = '|';
+        continue;
+      }
+      if (raw.startsWith('-')) {
+        negate = true;
+        raw = raw.slice(1);
+      }
+      if (raw.endsWith('*')) {
+        isPrefix = true;
+      }
+    }
+
+    const words = raw.split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0).map(word => word.toLowerCase());
+    if (words.length === 0) continue;
+
+    if (isPrefix) {
+      words[words.length - 1] = `${words[words.length - 1]}:*`;
+    }
+
+    let term = words.length > 1 ? `(${words.join(' <-> ')})` : words[0];
+    if (negate) term = `!${term}`;
+
+    if (parts.length > 0) parts.push(nextOperator);
+    parts.push(term);
+    nextOperator = '&';
+  }
+
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+export function buildSearchFilters(options: SearchOptions): Prisma.Sql {
+  const { userId, scope = 'mine', trash = 'exclude', from, to } = options;
+
+  const trashFilter = trash === 'only'
+    ? Prisma.sql`e.is_deleted = true`
+    : trash === 'include'
+      ? Prisma.sql`TRUE`
+      : Prisma.sql`e.is_deleted = false`;
+
+  // Trash only ever applies to the user's own entries
+  const mine = Prisma.sql`(e.user_id = ${userId} AND ${trashFilter})`;
+  const shared = Prisma.sql`(e.is_deleted = false AND EXISTS (
+    SELECT 1 FROM shared_entries s WHERE s.entry_id = e.id AND s.shared_with_id = ${userId}
+  ))`;
+
+  const scopeFilter = scope === 'shared'
+    ? shared
+    : scope === 'all'
+      ? Prisma.sql`(${mine} OR ${shared})`
+      : mine;
+
+  const filters = [scopeFilter];
+  if (from) filters.push(Prisma.sql`e.last_updated >= ${from}`);
+  if (to) filters.push(Prisma.sql`e.last_updated <= ${to}`);
+
+  return Prisma.join(filters, ' AND ');
+}
+
+// Ranked full-text search over title (weight A), synopsis (B) and content (C)
+// using the search_vector column and its GIN index
+export const searchEntries = async (
+  options: SearchOptions,
+  tsQuery: string
+): Promise<{ results: SearchResult[]; total: number }> => {
+  const page = Math.max(1, options.page ?? 1);
+  const limit = Math.min(50, Math.max(1, options.limit ?? 20));
+  const filters = buildSearchFilters(options);
+
+  const [results, totals] = await Promise.all([
+    prisma.$queryRaw<SearchResult[]>`
+      WITH q AS (SELECT to_tsquery('english', ${tsQuery}) AS query),
+      page AS (
+        SELECT e.id, ts_rank_cd(e.search_vector, q.query) AS rank
+        FROM entries e, q
+        WHERE e.search_vector @@ q.query AND ${filters}
+        ORDER BY rank DESC, e.last_updated DESC
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      )
+      SELECT
+        e.id,
+        e.title,
+        e.synopsis,
+        e.is_deleted AS "isDeleted",
+        e.date_created AS "dateCreated",
+        e.last_updated AS "lastUpdated",
+        e.user_id AS "userId",
+        page.rank::float8 AS rank,
+        ts_headline('english', translate(e.title, ${MATCH_START + MATCH_END}, ''), q.query, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+        ts_headline('english', translate(e.synopsis || E'\\n' || e.content, ${MATCH_START + MATCH_END}, ''), q.query, ${HEADLINE_OPTIONS}) AS snippet
+      FROM page
+      JOIN entries e ON e.id = page.id
+      CROSS JOIN q
+      ORDER BY page.rank DESC, e.last_updated DESC
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS total
+      FROM entries e
+      WHERE e.search_vector @@ to_tsquery('english', ${tsQuery}) AND ${filters}
+    `
+  ]);
+
+  return {
+    results: results.map(result => ({
+      ...result,
+      titleHighlight: highlightHtml(result.titleHighlight),
+      snippet: highlightHtml(result.snippet)
+    })),
+    total: totals[0]?.total ?? 0
+  };
+};
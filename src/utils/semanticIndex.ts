@@ -0,0 +1,271 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getEmbeddingModel, cosineSimilarity, AITokenUsage } from './ai';
+import { recordAIUsage } from './aiUsage';
+import { splitPassages } from './retrieval';
+import { buildSearchFilters } from './search';
+
+const prisma = new PrismaClient();
+
+// Unindexed entries embedded in the background after each semantic search
+const BACKFILL_LIMIT = 20;
+// Chunks fetched per result, so several chunks of one entry don't crowd others out
+const CHUNKS_PER_RESULT = 5;
+
+export interface SemanticMatch {
+  id: string;
+  title: string;
+  synopsis: string;
+  lastUpdated: Date;
+  userId: string;
+  similarity: number;
+  passage: string;
+}
+
+interface ChunkMatch {
+  entryId: string;
+  content: string;
+  similarity: number;
+}
+
+let pgvectorAvailable: boolean | null = null;
+
+// The vector column only exists when pgvector was installed during migration
+const hasPgvector = async (): Promise<boolean> => {
+  if (pgvectorAvailable === null) {
+    const rows = await prisma.$queryRaw<{ available: boolean }[]>`
+      SELECT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'entry_chunks' AND column_name = 'vector'
+      ) AS available
+    `;
+    pgvectorAvailable = rows[0]?.available ?? false;
+  }
+  return pgvectorAvailable;
+};
+
+const toVectorLiteral = (vector: number[]) => `[${vector.join(',')}]`;
+
+const accessibleEntries = (userId: string): Prisma.EntryWhereInput => ({
+  isDeleted: false,
+  OR: [
+    { userId },
+    { sharedEntries: { some: { sharedWithId: userId } } }
+  ]
+});
+
+// Re-chunking and embedding an entry's current text. Returns the tokens the
+// embedding used, or null when the entry no longer exists.
+export const indexEntry = async (entryId: string): Promise<AITokenUsage | null> => {
+  const entry = await prisma.entry.findUnique({
+    where: { id: entryId },
+    select: { id: true, title: true, synopsis: true, content: true }
+  });
+
+  if (!entry) return null;
+
+  const model = getEmbeddingModel();
+  const passages = splitPassages(`${entry.synopsis}\n\n${entry.content}`);
+  const chunks = passages.length > 0 ? passages : [entry.title];
+  // The title gives every chunk some context about the note it came from
+  const { vectors, usage } = await model.embed(chunks.map(chunk => `${entry.title}\n${chunk}`));
+  const usePgvector = await hasPgvector();
+
+  await prisma.$transaction(async (tx) => {
+    await tx.entryChunk.deleteMany({ where: { entryId } });
+
+    await tx.entryChunk.createMany({
+      data: chunks.map((content, index) => ({
+        entryId,
+        chunkIndex: index,
+        content,
+        model: model.name,
+        embedding: vectors[index]
+      }))
+    });
+
+    if (usePgvector) {
+      await tx.$executeRaw`UPDATE entry_chunks SET vector = embedding::vector WHERE entry_id = ${entryId}`;
+    }
+  });
+
+  return usage;
+};
+
+// Embedding runs after the response has been sent; if it fails the entry is
+// picked up again by the backfill on the next semantic search
+export const queueEntryIndexing = (entryId: string): void => {
+  setImmediate(() => {
+    indexEntry(entryId).catch(error => console.error('Entry indexing error:', error));
+  });
+};
+
+// Embedding entries that predate the index, were imported, or were indexed
+// with a different model
+export const indexMissingEntries = async (userId: string): Promise<number> => {
+  const model = getEmbeddingModel();
+
+  const entries = await prisma.entry.findMany({
+    where: {
+      ...accessibleEntries(userId),
+      chunks: { none: { model: model.name } }
+    },
+    select: { id: true },
+    orderBy: { lastUpdated: 'desc' },
+    take: BACKFILL_LIMIT
+  });
+
+  const usage: AITokenUsage = { promptTokens: 0, completionTokens: 0 };
+  for (const entry of entries) {
+    const entryUsage = await indexEntry(entry.id);
+    usage.promptTokens += entryUsage?.promptTokens ?? 0;
+  }
+
+  // Metered against the user whose search asked for it
+  if (entries.length > 0) {
+    await recordAIUsage(userId, 'semantic-index', { provider: model.name, degraded: false, usage });
+  }
+
+  return entries.length;
+};
+
+// Users with a backfill already running
+const backfilling = new Set<string>();
+
+// Backfilling one batch after the response, so searches never wait on it
+// and each search embeds at most BACKFILL_LIMIT entries
+export const queueMissingEntries = (userId: string): void => {
+  if (backfilling.has(userId)) return;
+  backfilling.add(userId);
+
+  setImmediate(() => {
+    indexMissingEntries(userId)
+      .catch(error => console.error('Entry backfill error:', error))
+      .finally(() => backfilling.delete(userId));
+  });
+};
+
+const findSimilarChunks = async (
+  userId: string,
+  vector: number[],
+  limit: number,
+  excludeEntryId?: string
+): Promise<ChunkMatch[]> => {
+  const model = getEmbeddingModel();
+
+  if (await hasPgvector()) {
+    const literal = toVectorLiteral(vector);
+    const exclude = excludeEntryId ? Prisma.sql`AND c.entry_id <> ${excludeEntryId}` : Prisma.empty;
+
+    return prisma.$queryRaw<ChunkMatch[]>`
+      SELECT
+        c.entry_id AS "entryId",
+        c.content,
+        (1 - (c.vector <=> ${literal}::vector))::float8 AS similarity
+      FROM entry_chunks c
+      JOIN entries e ON e.id = c.entry_id
+      WHERE c.model = ${model.name}
+        AND c.vector IS NOT NULL
+        AND ${buildSearchFilters({ userId, scope: 'all' })}
+        ${exclude}
+      ORDER BY c.vector <=> ${literal}::vector
+      LIMIT ${limit}
+    `;
+  }
+
+  // In-process fallback: score every accessible chunk
+  const chunks = await prisma.entryChunk.findMany({
+    where: {
+      model: model.name,
+      entry: accessibleEntries(userId),
+      ...(excludeEntryId && { entryId: { not: excludeEntryId } })
+    },
+    select: { entryId: true, content: true, embedding: true }
+  });
+
+  return chunks
+    .map(chunk => ({
+      entryId: chunk.entryId,
+      content: chunk.content,
+      similarity: cosineSimilarity(vector, chunk.embedding)
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+};
+
+// Best chunk per entry, joined with the entry details
+const toEntryMatches = async (chunks: ChunkMatch[], limit: number): Promise<SemanticMatch[]> => {
+  const best = new Map<string, ChunkMatch>();
+  chunks.forEach(chunk => {
+    const current = best.get(chunk.entryId);
+    if (!current || chunk.similarity > current.similarity) {
+      best.set(chunk.entryId, chunk);
+    }
+  });
+
+  const ranked = Array.from(best.values())
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+
+  const entries = await prisma.entry.findMany({
+    where: { id: { in: ranked.map(match => match.entryId) } },
+    select: { id: true, title: true, synopsis: true, lastUpdated: true, userId: true }
+  });
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+
+  return ranked
+    .filter(match => entriesById.has(match.entryId))
+    .map(match => ({
+      ...entriesById.get(match.entryId)!,
+      similarity: Math.round(match.similarity * 1000) / 1000,
+      passage: match.content
+    }));
+};
+
+// Matches plus the tokens spent embedding the query, for the caller to meter
+export const semanticSearch = async (
+  userId: string,
+  query: string,
+  limit: number = 10
+): Promise<{ matches: SemanticMatch[]; usage: AITokenUsage }> => {
+  queueMissingEntries(userId);
+
+  const { vectors: [vector], usage } = await getEmbeddingModel().embed([query]);
+  const chunks = await findSimilarChunks(userId, vector, limit * CHUNKS_PER_RESULT);
+
+  return { matches: await toEntryMatches(chunks, limit), usage };
+};
+
+// Entries closest to the average of this entry's chunk vectors. `usage` is
+// set when the entry had to be embedded first.
+export const findRelatedEntries = async (
+  userId: string,
+  entryId: string,
+  limit: number = 5
+): Promise<{ matches: SemanticMatch[]; usage: AITokenUsage | null }> => {
+  const model = getEmbeddingModel();
+  let usage: AITokenUsage | null = null;
+
+  let chunks = await prisma.entryChunk.findMany({
+    where: { entryId, model: model.name },
+    select: { embedding: true }
+  });
+
+  if (chunks.length === 0) {
+    usage = await indexEntry(entryId);
+    chunks = await prisma.entryChunk.findMany({
+      where: { entryId, model: model.name },
+      select: { embedding: true }
+    });
+  }
+
+  if (chunks.length === 0) return { matches: [], usage };
+
+  queueMissingEntries(userId);
+
+  const centroid = chunks[0].embedding.map((_, index) =>
+    chunks.reduce((sum, chunk) => sum + (chunk.embedding[index] ?? 0), 0) / chunks.length
+  );
+
+  const matches = await findSimilarChunks(userId, centroid, limit * CHUNKS_PER_RESULT, entryId);
+  return { matches: await toEntryMatches(matches, limit), usage };
+};
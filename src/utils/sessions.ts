@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Request } from 'express';
+import { PrismaClient, Session } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  session: Session;
+}
+
+// Another request rotated the same refresh token a moment earlier, e.g. two
+// tabs refreshing at once. Not treated as reuse, so the session stays alive.
+export class RefreshConflictError extends Error {
+  constructor() {
+    super('Refresh token was rotated by another request');
+    this.name = 'RefreshConflictError';
+  }
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function signAccessToken(userId: string, sessionId: string): string {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT secret not configured');
+  }
+
+  return jwt.sign(
+    { userId, sessionId },
+    jwtSecret,
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN as SignOptions['expiresIn'] }
+  );
+}
+
+// Starting a new session for a successful login
+export const createSession = async (userId: string, req: Request): Promise<SessionTokens> => {
+  const refreshToken = generateRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: req.headers['user-agent']?.slice(0, 512) || null,
+      ipAddress: req.ip || null,
+      expiresAt: refreshTokenExpiry()
+    }
+  });
+
+  return {
+    token: signAccessToken(userId, session.id),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+    session
+  };
+};
+
+// Exchanging a refresh token for a new access/refresh pair. Presenting a
+// refresh token that was already rotated means it leaked, so the whole
+// session is revoked. Losing a race with a parallel rotation of the same
+// token throws RefreshConflictError instead.
+export const rotateSession = async (refreshToken: string, req: Request): Promise<SessionTokens | null> => {
+  const tokenHash = hashToken(refreshToken);
+  const now = new Date();
+
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: tokenHash },
+    include: { user: { select: { isDeleted: true } } }
+  });
+
+  if (!session) {
+    const reused = await prisma.session.findFirst({
+      where: { previousTokenHash: tokenHash, revokedAt: null }
+    });
+
+    if (reused) {
+      await revokeSession(reused.id);
+    }
+    return null;
+  }
+
+  if (session.revokedAt || session.expiresAt < now || session.user.isDeleted) {
+    return null;
+  }
+
+  // Only swapped if the token is still the current one
+  const newRefreshToken = generateRefreshToken();
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(newRefreshToken),
+      previousTokenHash: tokenHash,
+      lastUsedAt: now,
+      ipAddress: req.ip || session.ipAddress,
+      expiresAt: refreshTokenExpiry()
+    }
+  });
+
+  if (count === 0) {
+    throw new RefreshConflictError();
+  }
+
+  const updatedSession = await prisma.session.findUniqueOrThrow({ where: { id: session.id } });
+
+  return {
+    token: signAccessToken(session.userId, session.id),
+    refreshToken: newRefreshToken,
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+    session: updatedSession
+  };
+};
+
+export const findSessionByRefreshToken = async (refreshToken: string) => {
+  return prisma.session.findUnique({
+    where: { refreshTokenHash: hashToken(refreshToken) }
+  });
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+};
+
+// Revoking every session of a user, optionally keeping the current one
+export const revokeUserSessions = async (userId: string, exceptSessionId?: string): Promise<number> => {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    data: { revokedAt: new Date() }
+  });
+
+  return result.count;
+};
+
+export const isSessionActive = async (sessionId: string, userId: string): Promise<boolean> => {
+  const session = await prisma.session.findFirst({
+    where: {
+      id: sessionId,
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    select: { id: true }
+  });
+
+  return Boolean(session);
+};
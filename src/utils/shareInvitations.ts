@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient, ShareInvitation } from '@prisma/client';
+import { hashToken } from './sessions';
+import { sendShareInvitationEmail } from './emails';
+
+const prisma = new PrismaClient();
+
+const INVITATION_PURPOSE = 'share_invitation';
+const INVITATION_TTL_DAYS = parseInt(process.env.SHARE_INVITATION_TTL_DAYS || '14', 10);
+
+export const INVITATION_STATUS = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+  CANCELLED: 'CANCELLED'
+} as const;
+
+interface InvitationPayload {
+  invitationId: string;
+  email: string;
+  purpose: string;
+}
+
+function getJwtSecret(): string {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT secret not configured');
+  }
+  return jwtSecret;
+}
+
+const invitationExpiry = () => new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+function signInvitationToken(invitationId: string, email: string, expiresAt: Date): string {
+  return jwt.sign(
+    { invitationId, email, purpose: INVITATION_PURPOSE },
+    getJwtSecret(),
+    { expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)) }
+  );
+}
+
+export const isInvitationOpen = (invitation: ShareInvitation, now = new Date()): boolean =>
+  invitation.status === INVITATION_STATUS.PENDING && invitation.expiresAt > now;
+
+export const toInvitationSummary = (invitation: ShareInvitation) => ({
+  id: invitation.id,
+  entryId: invitation.entryId,
+  email: invitation.email,
+  permission: invitation.permission,
+  status: invitation.status,
+  expired: invitation.status === INVITATION_STATUS.PENDING && invitation.expiresAt <= new Date(),
+  expiresAt: invitation.expiresAt,
+  sendCount: invitation.sendCount,
+  lastSentAt: invitation.lastSentAt,
+  respondedAt: invitation.respondedAt,
+  createdAt: invitation.createdAt
+});
+
+// Mailing the current token; a failed email shouldn't lose the invitation
+const sendInvitation = async (invitation: ShareInvitation, token: string): Promise<boolean> => {
+  const [inviter, entry] = await Promise.all([
+    prisma.user.findUnique({ where: { id: invitation.invitedById }, select: { firstName: true, lastName: true } }),
+    prisma.entry.findUnique({ where: { id: invitation.entryId }, select: { title: true } })
+  ]);
+
+  try {
+    await sendShareInvitationEmail(
+      invitation.email,
+      inviter ? `${inviter.firstName} ${inviter.lastName}` : 'Someone',
+      entry?.title ?? 'a note',
+      token,
+      invitation.expiresAt
+    );
+    return true;
+  } catch (mailError) {
+    console.warn('Failed to send share invitation email:', mailError);
+    return false;
+  }
+};
+
+// Inviting an address that has no account. Inviting the same address to the
+// same entry again updates the permission and sends a fresh link.
+export const inviteToEntry = async (
+  entryId: string,
+  invitedById: string,
+  email: string,
+  permission: string
+): Promise<{ invitation: ShareInvitation; emailSent: boolean; created: boolean }> => {
+  const existing = await prisma.shareInvitation.findFirst({
+    where: { entryId, email, status: INVITATION_STATUS.PENDING }
+  });
+
+  if (existing) {
+    const result = await resendInvitation(existing, { permission });
+    return { ...result, created: false };
+  }
+
+  // The token embeds the id, so the id is chosen up front
+  const id = crypto.randomUUID();
+  const expiresAt = invitationExpiry();
+  const token = signInvitationToken(id, email, expiresAt);
+
+  const invitation = await prisma.shareInvitation.create({
+    data: {
+      id,
+      entryId,
+      invitedById,
+      email,
+      permission,
+      expiresAt,
+      tokenHash: hashToken(token)
+    }
+  });
+
+  return { invitation, emailSent: await sendInvitation(invitation, token), created: true };
+};
+
+// Issuing a new link with a fresh expiry; links sent earlier stop working
+export const resendInvitation = async (
+  invitation: ShareInvitation,
+  changes: { permission?: string } = {}
+): Promise<{ invitation: ShareInvitation; emailSent: boolean }> => {
+  const expiresAt = invitationExpiry();
+  const token = signInvitationToken(invitation.id, invitation.email, expiresAt);
+
+  const updated = await prisma.shareInvitation.update({
+    where: { id: invitation.id },
+    data: {
+      ...changes,
+      expiresAt,
+      tokenHash: hashToken(token),
+      sendCount: { increment: 1 },
+      lastSentAt: new Date()
+    }
+  });
+
+  return { invitation: updated, emailSent: await sendInvitation(updated, token) };
+};
+
+// Only the most recently sent token of a pending, unexpired invitation is accepted
+export const findInvitationByToken = async (token: string): Promise<ShareInvitation | null> => {
+  let payload: InvitationPayload;
+  try {
+    payload = jwt.verify(token, getJwtSecret()) as InvitationPayload;
+  } catch {
+    return null;
+  }
+
+  if (payload.purpose !== INVITATION_PURPOSE) return null;
+
+  const invitation = await prisma.shareInvitation.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!invitation || invitation.id !== payload.invitationId || !isInvitationOpen(invitation)) {
+    return null;
+  }
+
+  return invitation;
+};
+
+// Turning an invitation into a SharedEntry for the user. Returns false when it
+// was already answered in the meantime.
+export const acceptInvitation = async (invitation: ShareInvitation, userId: string): Promise<boolean> => {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.shareInvitation.updateMany({
+      where: { id: invitation.id, status: INVITATION_STATUS.PENDING },
+      data: {
+        status: INVITATION_STATUS.ACCEPTED,
+        acceptedById: userId,
+        respondedAt: new Date()
+      }
+    });
+
+    if (count === 0) return false;
+
+    const entry = await tx.entry.findUnique({
+      where: { id: invitation.entryId },
+      select: { userId: true }
+    });
+
+    // The owner already has access to their own entry
+    if (!entry || entry.userId === userId) return true;
+
+    const existingShare = await tx.sharedEntry.findFirst({
+      where: { entryId: invitation.entryId, sharedWithId: userId }
+    });
+
+    if (existingShare) {
+      await tx.sharedEntry.update({
+        where: { id: existingShare.id },
+        data: { permission: invitation.permission }
+      });
+    } else {
+      await tx.sharedEntry.create({
+        data: {
+          entryId: invitation.entryId,
+          sharedById: invitation.invitedById,
+          sharedWithId: userId,
+          permission: invitation.permission
+        }
+      });
+    }
+
+    return true;
+  });
+};
+
+export const declineInvitation = async (invitation: ShareInvitation): Promise<boolean> => {
+  const { count } = await prisma.shareInvitation.updateMany({
+    where: { id: invitation.id, status: INVITATION_STATUS.PENDING },
+    data: { status: INVITATION_STATUS.DECLINED, respondedAt: new Date() }
+  });
+
+  return count === 1;
+};
+
+// Accepting every open invitation for an address the user has proven they own
+export const claimShareInvitations = async (userId: string, email: string): Promise<number> => {
+  const invitations = await prisma.shareInvitation.findMany({
+    where: {
+      email: email.toLowerCase(),
+      status: INVITATION_STATUS.PENDING,
+      expiresAt: { gt: new Date() }
+    }
+  });
+
+  let accepted = 0;
+  for (const invitation of invitations) {
+    if (await acceptInvitation(invitation, userId)) accepted++;
+  }
+
+  return accepted;
+};
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { PrismaClient, ShareLink } from '@prisma/client';
+import { hashToken } from './sessions';
+
+const prisma = new PrismaClient();
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+export interface ShareLinkOptions {
+  password?: string;
+  expiresAt?: Date;
+  maxViews?: number;
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+const STATUS_MESSAGES: Record<Exclude<ShareLinkStatus, 'active'>, string> = {
+  expired: 'This link has expired',
+  revoked: 'This link has been revoked',
+  exhausted: 'This link has reached its view limit'
+};
+
+export const shareLinkStatus = (link: ShareLink, now = new Date()): ShareLinkStatus => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  if (link.maxViews !== null && link.viewCount >= link.maxViews) return 'exhausted';
+  return 'active';
+};
+
+// What the owner sees for a link; the token itself is only returned once, on creation
+export const toShareLinkSummary = (link: ShareLink) => ({
+  id: link.id,
+  entryId: link.entryId,
+  hasPassword: link.passwordHash !== null,
+  expiresAt: link.expiresAt,
+  maxViews: link.maxViews,
+  viewCount: link.viewCount,
+  viewsRemaining: link.maxViews === null ? null : Math.max(0, link.maxViews - link.viewCount),
+  lastViewedAt: link.lastViewedAt,
+  revokedAt: link.revokedAt,
+  createdAt: link.createdAt,
+  status: shareLinkStatus(link)
+});
+
+export const createShareLink = async (
+  entryId: string,
+  userId: string,
+  options: ShareLinkOptions
+): Promise<{ token: string; link: ShareLink }> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const link = await prisma.shareLink.create({
+    data: {
+      entryId,
+      createdById: userId,
+      tokenHash: hashToken(token),
+      passwordHash: options.password ? await bcrypt.hash(options.password, 12) : null,
+      expiresAt: options.expiresAt ?? null,
+      maxViews: options.maxViews ?? null
+    }
+  });
+
+  return { token, link };
+};
+
+// Resolving a public token to its entry and counting the view. Throws a
+// ShareLinkError when the link can't be opened.
+export const openShareLink = async (token: string, password?: string) => {
+  const link = await prisma.shareLink.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      entry: {
+        include: {
+          user: { select: { firstName: true, lastName: true, isDeleted: true } }
+        }
+      }
+    }
+  });
+
+  // Links stop working while the owner's account is deactivated
+  if (!link || link.entry.isDeleted || link.entry.user.isDeleted) {
+    throw new ShareLinkError('Share link not found', 404, 'not_found');
+  }
+
+  const status = shareLinkStatus(link);
+  if (status !== 'active') {
+    throw new ShareLinkError(STATUS_MESSAGES[status], 410, status);
+  }
+
+  if (link.passwordHash) {
+    if (!password) {
+      throw new ShareLinkError('A password is required to open this link', 401, 'password_required');
+    }
+    if (!(await bcrypt.compare(password, link.passwordHash))) {
+      throw new ShareLinkError('Incorrect password', 401, 'invalid_password');
+    }
+  }
+
+  // Two visitors racing for the last view can't both get it
+  const { count } = await prisma.shareLink.updateMany({
+    where: {
+      id: link.id,
+      revokedAt: null,
+      OR: [
+        { maxViews: null },
+        { viewCount: { lt: prisma.shareLink.fields.maxViews } }
+      ]
+    },
+    data: {
+      viewCount: { increment: 1 },
+      lastViewedAt: new Date()
+    }
+  });
+
+  if (count === 0) {
+    throw new ShareLinkError(STATUS_MESSAGES.exhausted, 410, 'exhausted');
+  }
+
+  const { entry, ...linkData } = link;
+  return { link: { ...linkData, viewCount: link.viewCount + 1 }, entry };
+};
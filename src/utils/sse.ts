@@ -0,0 +1,34 @@
+import { Response } from 'express';
+
+const HEARTBEAT_INTERVAL = 15000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  end(): void;
+}
+
+// Switching a response to Server-Sent Events. A comment line is written
+// periodically so proxies don't close a quiet connection.
+export const openEventStream = (res: Response): EventStream => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+  res.on('close', () => clearInterval(heartbeat));
+
+  return {
+    send(event, data) {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    end() {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) res.end();
+    }
+  };
+};
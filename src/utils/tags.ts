@@ -0,0 +1,35 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export function normalizeTagName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function normalizeTagNames(names: string[]): string[] {
+  return [...new Set(names.map(normalizeTagName).filter(name => name.length > 0))];
+}
+
+// Attaching tags to an entry by name, creating any tags the user doesn't have yet
+export const applyTagsByName = async (userId: string, entryId: string, names: string[]) => {
+  const uniqueNames = normalizeTagNames(names);
+
+  return prisma.$transaction(async (tx) => {
+    const tags = [];
+    for (const name of uniqueNames) {
+      const tag = await tx.tag.upsert({
+        where: { userId_name: { userId, name } },
+        update: {},
+        create: { name, userId }
+      });
+      tags.push(tag);
+    }
+
+    await tx.entryTag.createMany({
+      data: tags.map(tag => ({ entryId, tagId: tag.id })),
+      skipDuplicates: true
+    });
+
+    return tags;
+  });
+};
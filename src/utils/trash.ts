@@ -0,0 +1,76 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+const TRASH_PURGE_INTERVAL_MS = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || String(60 * 60 * 1000), 10);
+const PURGE_BATCH_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When an entry deleted at `deletedAt` will be removed for good
+export function purgeDate(deletedAt: Date | null): Date | null {
+  if (!deletedAt || TRASH_RETENTION_DAYS <= 0) return null;
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+// Removing trashed entries for good. SharedEntry rows are deleted with them;
+// revisions, tags, chunks, share links and invitations follow by cascade.
+export const permanentlyDeleteEntries = async (where: Prisma.EntryWhereInput): Promise<number> => {
+  const entries = await prisma.entry.findMany({
+    where: { ...where, isDeleted: true },
+    select: { id: true }
+  });
+
+  if (entries.length === 0) return 0;
+
+  const ids = entries.map(entry => entry.id);
+  const [, { count }] = await prisma.$transaction([
+    prisma.sharedEntry.deleteMany({ where: { entryId: { in: ids } } }),
+    // Re-checking isDeleted so an entry restored meanwhile is kept
+    prisma.entry.deleteMany({ where: { id: { in: ids }, isDeleted: true } })
+  ]);
+
+  return count;
+};
+
+// Purging every entry that has been in the trash longer than the retention period
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS);
+  let purged = 0;
+
+  for (;;) {
+    const batch = await prisma.entry.findMany({
+      where: { isDeleted: true, deletedAt: { lt: cutoff } },
+      select: { id: true },
+      take: PURGE_BATCH_SIZE
+    });
+
+    if (batch.length === 0) break;
+
+    const count = await permanentlyDeleteEntries({ id: { in: batch.map(entry => entry.id) } });
+    purged += count;
+    if (batch.length < PURGE_BATCH_SIZE) break;
+  }
+
+  return purged;
+};
+
+// Running the purge once at startup and then every TRASH_PURGE_INTERVAL_MS.
+// TRASH_RETENTION_DAYS=0 turns automatic purging off.
+export const startTrashPurgeSchedule = (): NodeJS.Timeout | null => {
+  if (TRASH_RETENTION_DAYS <= 0) return null;
+
+  const run = () => {
+    purgeExpiredTrash()
+      .then(count => {
+        if (count > 0) console.log(`Purged ${count} entries from the trash`);
+      })
+      .catch(error => console.error('Trash purge error:', error));
+  };
+
+  run();
+  const timer = setInterval(run, TRASH_PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { hashToken } from './sessions';
+import { verifyTotp, generateRecoveryCodes, normalizeRecoveryCode } from './totp';
+
+const prisma = new PrismaClient();
+
+const CHALLENGE_PURPOSE = '2fa_challenge';
+const CHALLENGE_EXPIRES_IN = '5m';
+// Wrong codes a challenge survives before the password has to be entered again
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+interface ChallengePayload {
+  userId: string;
+  purpose: string;
+  jti?: string;
+}
+
+export interface TwoFactorChallenge {
+  userId: string;
+  challengeId: string;
+}
+
+function getJwtSecret(): string {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT secret not configured');
+  }
+  return jwtSecret;
+}
+
+// Short-lived proof that the password step of a login succeeded. It carries
+// no session, so authenticateToken never accepts it as an access token. Only
+// the user's latest challenge can be answered; signing one replaces the last.
+export const signTwoFactorChallenge = async (userId: string): Promise<string> => {
+  const challengeId = crypto.randomUUID();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorChallengeId: challengeId, twoFactorChallengeAttempts: 0 }
+  });
+
+  return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, getJwtSecret(), {
+    expiresIn: CHALLENGE_EXPIRES_IN,
+    jwtid: challengeId
+  });
+};
+
+export function verifyTwoFactorChallenge(challengeToken: string): TwoFactorChallenge | null {
+  try {
+    const payload = jwt.verify(challengeToken, getJwtSecret()) as ChallengePayload;
+    if (payload.purpose !== CHALLENGE_PURPOSE || !payload.jti) return null;
+    return { userId: payload.userId, challengeId: payload.jti };
+  } catch {
+    return null;
+  }
+}
+
+// Counting an attempt against the challenge before the code is checked, so
+// parallel guesses can't get past the limit. False once the challenge has
+// been used, replaced or tried too many times.
+export const claimChallengeAttempt = async ({ userId, challengeId }: TwoFactorChallenge): Promise<boolean> => {
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      twoFactorChallengeId: challengeId,
+      twoFactorChallengeAttempts: { lt: MAX_CHALLENGE_ATTEMPTS }
+    },
+    data: { twoFactorChallengeAttempts: { increment: 1 } }
+  });
+  return count === 1;
+};
+
+// A challenge is good for one login
+export const consumeChallenge = async ({ userId, challengeId }: TwoFactorChallenge): Promise<boolean> => {
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, twoFactorChallengeId: challengeId },
+    data: { twoFactorChallengeId: null, twoFactorChallengeAttempts: 0 }
+  });
+  return count === 1;
+};
+
+// Accepting either an authenticator code or an unused recovery code
+export const checkSecondFactor = async (
+  userId: string,
+  code?: string,
+  recoveryCode?: string
+): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastStep: true }
+  });
+
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+  if (code) {
+    const step = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastStep);
+    if (step === null) return false;
+
+    // Remembering the step stops the same code from being replayed
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }]
+      },
+      data: { twoFactorLastStep: step }
+    });
+    return count === 1;
+  }
+
+  if (recoveryCode) {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+        usedAt: null
+      },
+      data: { usedAt: new Date() }
+    });
+    return count > 0;
+  }
+
+  return false;
+};
+
+// Replacing all recovery codes; the plain codes are only ever returned here
+export const replaceRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashToken(code) }))
+    })
+  ]);
+
+  return codes;
+};
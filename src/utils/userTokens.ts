@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import { PrismaClient, UserToken } from '@prisma/client';
+import { hashToken } from './sessions';
+
+const prisma = new PrismaClient();
+
+export const TOKEN_TYPES = {
+  PASSWORD_RESET: 'PASSWORD_RESET',
+  EMAIL_VERIFICATION: 'EMAIL_VERIFICATION'
+} as const;
+
+export type UserTokenType = typeof TOKEN_TYPES[keyof typeof TOKEN_TYPES];
+
+const TOKEN_TTL_MINUTES: Record<UserTokenType, number> = {
+  PASSWORD_RESET: 60,
+  EMAIL_VERIFICATION: 24 * 60
+};
+
+// Issuing a single-use token; earlier unused tokens of the same type stop working
+export const createUserToken = async (
+  userId: string,
+  type: UserTokenType,
+  email?: string
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: now }
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        email,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + TOKEN_TTL_MINUTES[type] * 60 * 1000)
+      }
+    })
+  ]);
+
+  return token;
+};
+
+// Marking a token as used; returns null when it is unknown, expired or already used
+export const consumeUserToken = async (token: string, type: UserTokenType): Promise<UserToken | null> => {
+  const userToken = await prisma.userToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!userToken || userToken.type !== type || userToken.usedAt || userToken.expiresAt < new Date()) {
+    return null;
+  }
+
+  // Guarding against two requests racing to use the same token
+  const { count } = await prisma.userToken.updateMany({
+    where: { id: userToken.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  return count === 1 ? userToken : null;
+};